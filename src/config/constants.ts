@@ -1,19 +1,80 @@
 export const CONSTANTS = {
   GEMINI_API_TEST_ENDPOINT: 'https://generativelanguage.googleapis.com/v1/models',
-  GEMINI_API_GENERATE_CONTENT_ENDPOINT: 'https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent',
-  RETRY_INTERVAL: 300000, // 5 minutes in milliseconds
-  MAX_RETRIES: 2,
+  GEMINI_API_BASE_URL: 'https://generativelanguage.googleapis.com/v1beta/models',
+  DEFAULT_RETRY_MAX_ATTEMPTS: 3, // Attempts per post, including the first
+  DEFAULT_RETRY_BASE_DELAY_MINUTES: 5, // Delay before the first queue retry; doubles with each attempt
+  DEFAULT_RETRY_MAX_AGE_HOURS: 24, // Posts are not retried once this long has passed since their first attempt
+  RETRY_MAX_DELAY: 21600000, // 6 hours in milliseconds
+  HTTP_MAX_ATTEMPTS: 3,
+  HTTP_RETRY_BASE_DELAY: 300, // Milliseconds before the first in-process fetch retry
+  HTTP_RETRY_MAX_DELAY: 5000, // 5 seconds in milliseconds
+  HTTP_RETRY_MAX_AGE: 60000, // 1 minute in milliseconds; longer waits are left to the queue
   CRON_DAILY_MIDNIGHT: '0 0 * * *',
   CRON_HOURLY: '0 * * * *',
+  CRON_DAILY_DIGEST: '5 0 * * *', // Just after midnight UTC, once the previous day is complete
   CRON_EVERY_30_SECONDS: '*/30 * * * * *',
   SUMMARY_SYSTEM_PROMPT: `You are an unbiased and knowledgeable summarizer of links on Reddit posts. You will be asked to summarize a variety of links, from news to corporate websites. You should always provide an unbiased summary of the linked page content. If the content expresses opinions, you may reflect that in the summary. You will be given the title and text body of the linked page. If the content is very short, then your summary should be correspondingly short. However, for longer texts, you may provide a summary of several paragraphs in length. Your entire response must be less than 8,000 characters. If the content is in another language, provide your summary in that language and then provide your summary in English. When summarizing in another language, be sure to use the same variety of that language as is used in the content, for example if the content is in Brazilian Portuguese, the summary should be in Brazilian Portuguese and not in Portugal Portuguese. Remember: always include an English summary, and IF THE CONTENT IS NOT IN ENGLISH, ALSO include a summary in the language of the content. Include the title "Link Summary". Consider breaking summaries into multiple, bulleted paragraphs.`,
-  SUMMARIZING_PROMPT: 'Summarize the following web content from {url}:\nTitle: """{title}"""\nText: """{content}"""',
+  SUMMARIZING_PROMPT: 'Summarize the following web content from {url}:\n{#if site_name}Site: {site_name}\n{/if}{#if author}Author: {author}\n{/if}{#if published}Published: {published}\n{/if}Title: """{title}"""\nText: """{content}"""',
+  SUMMARY_LANGUAGE_INSTRUCTION: 'Write the entire summary in {language} only, whatever the language of the content, and ignore any other instruction about which languages to use.',
+  SUMMARY_LENGTH_INSTRUCTION: 'Your entire response must be less than {length} characters.',
+  CHUNK_SYSTEM_PROMPT: 'You are helping summarize a long web page that has been split into parts. Condense the part you are given into concise notes that keep every key fact, figure, name, claim and opinion. Write the notes in the language of the content. Do not add an introduction or conclusion.',
+  CHUNK_PROMPT: 'Condense this part of the web page titled """{title}""":\nText: """{content}"""',
+  DISCUSSION_SYSTEM_PROMPT: 'You summarize Reddit comment threads for the readers of a subreddit. You will be given the top comments of a post, highest scored first, each with its score. Write a neutral digest of the main viewpoints, points of agreement and disagreement, and any useful facts or answers raised. Give more weight to higher scored comments, but represent significant minority views fairly. Do not take sides, do not mention usernames, and do not repeat insults or personal information. Include the title "Discussion Summary" and use short bulleted paragraphs. Your entire response must be less than 4,000 characters.',
+  DISCUSSION_PROMPT: 'Summarize the discussion on the Reddit post """{post_title}"""{#if subreddit} in r/{subreddit}{/if}.\n{#if url}The post links to {url}\n{/if}Comments, highest scored first:\n"""{content}"""',
+  DISCUSSION_TEMPERATURE: 0.3, // Low temperature keeps the digest neutral and stable across updates
+  DISCUSSION_SUMMARY_MAX_LENGTH: 4000, // Maximum discussion summary length in characters
+  DISCUSSION_MAX_COMMENTS_SCANNED: 500, // Comments read from the thread before ranking
+  DISCUSSION_MAX_DEPTH: 5, // Reply depth walked below top-level comments
+  DISCUSSION_TOP_COMMENTS: 50, // Highest scored comments passed to the model
+  DISCUSSION_COMMENT_MAX_LENGTH: 1000, // Characters kept from each comment
+  DISCUSSION_MIN_COMMENTS: 5, // Threads with fewer usable comments are not summarized
+  DISCUSSION_MIN_NEW_COMMENTS: 10, // Scheduled updates wait until this many new comments have arrived
+  DISCUSSION_TRACKING_TTL: 604800, // Scheduled updates stop 7 days (in seconds) after the post was created
+  DISCUSSION_UPDATES_PER_RUN: 5,
   BOT_FOOTER: '*I am a bot and this summary was created automatically. Get AI summaries for your own sub with just a few [clicks](https://developers.reddit.com/apps/ai-summaries)*', //TODO: add links
   DEFAULT_TEMPERATURE: 1.0,
   MAX_SUMMARY_LENGTH: 8000, // Maximum summary length in characters
+  MIN_MANUAL_SUMMARY_LENGTH: 500, // Shortest summary length a moderator can ask for
+  REDDIT_COMMENT_MAX_LENGTH: 10000, // Reddit rejects longer comments
+  CHUNK_SUMMARY_MAX_LENGTH: 2000, // Maximum length in characters of each map-reduce chunk summary
+  DEFAULT_MAX_INPUT_TOKENS: 30000, // Content above this size is truncated, chunked or skipped
+  DEFAULT_CHUNK_TOKENS: 8000, // Token budget for each map-reduce chunk
+  MAX_MAP_REDUCE_CHUNKS: 10,
+  PROMPT_PREVIEW_MAX_LENGTH: 5000, // Characters of the rendered prompt shown in the preview form
   REQUEST_SLOT_TIMEOUT: 60000, // 1 minute in milliseconds
-  TOKEN_WAIT_TIMEOUT: 60000, // 1 minute in milliseconds
-  RETRY_DELAY: 60000, // 1 minute in milliseconds
+  RATE_LIMIT_WINDOW: 60000, // Requests per minute are counted over this sliding window, in milliseconds
+  LEASE_TTL: 120000, // 2 minutes in milliseconds; leases are renewed every third of this while held
+  UPGRADE_LEASE_TTL: 60000, // 1 minute in milliseconds
+  BUCKET_TRANSACTION_ATTEMPTS: 5, // Token bucket transactions are retried this many times when another run wins the race
+  USER_AGENT: 'Mozilla/5.0 (compatible; AISummariesBot/1.0; +https://developers.reddit.com/apps/ai-summaries)',
+  ROBOTS_USER_AGENT_TOKEN: 'AISummariesBot',
+  ROBOTS_CACHE_TTL: 86400, // 24 hours in seconds
+  ROBOTS_UNREACHABLE_CACHE_TTL: 600, // 10 minutes in seconds; an unreachable robots.txt is fetched again sooner
+  ROBOTS_MAX_LENGTH: 512000, // robots.txt is only required to be parsed up to 500 KiB
+  MAX_REDIRECTS: 5,
+  MAX_RESPONSE_BYTES: 5_000_000, // 5 MB
+  MIN_CONTENT_LENGTH: 100, // Pages with less extracted text than this are not summarized
+  MIN_CANDIDATE_CONTENT_LENGTH: 200, // Main content extraction tries the next container when it finds less text than this
+  DEFAULT_DOMAIN_BLOCKLIST: 'i.redd.it\nv.redd.it\n*.imgur.com\n*.youtube.com\nyoutu.be\n*.redgifs.com\n*.giphy.com',
+  DEFAULT_SELF_POST_MIN_LENGTH: 3000, // Text posts shorter than this many characters are not summarized
+  MAX_CROSSPOST_DEPTH: 3, // Crossposts of crossposts are followed this many times
+  POST_SOURCE_TTL: 604800, // 7 days in seconds
+  DEFAULT_SUMMARY_CACHE_TTL_HOURS: 72, // Summaries are reused for reposts of a link for this long
+  DEFAULT_QUEUE_BATCH_SIZE: 10, // Posts processed per queue run
+  QUEUE_SCAN_LIMIT: 50, // Normal-lane posts checked for trending activity per queue run
+  QUEUE_ACTIVITY_CHECK_INTERVAL: 300000, // 5 minutes in milliseconds before a post's activity is checked again
+  DEFAULT_PRIORITY_SCORE_THRESHOLD: 100,
+  DEFAULT_PRIORITY_COMMENTS_PER_HOUR: 30,
+  DEFAULT_QUEUE_PROMOTION_MINUTES: 60, // Waiting this long moves a post up one priority lane
+  PRIORITY_MIN_POST_AGE: 900000, // 15 minutes in milliseconds; comment rates are averaged over at least this long
+  DASHBOARD_QUEUED_POSTS: 10, // Queued posts listed on the moderator dashboard
+  DASHBOARD_RECENT_ERRORS: 10, // Processing errors kept for the moderator dashboard
+  DEFAULT_DEAD_LETTER_RETENTION_DAYS: 14,
+  DEFAULT_ANALYTICS_RETENTION_DAYS: 30,
+  DIGEST_TOP_DOMAINS: 10, // Domains listed in the daily digest
   API_KEY_VALIDATION_KEY: 'api_key_validation',
   API_KEY_VALIDATION_TTL: 1800, // 30 minutes in seconds
+  API_KEY_INVALID_TTL: 300, // 5 minutes in seconds; a rejected key is checked again after this
+  API_KEY_AUTH_COOLDOWN: 21600000, // 6 hours in milliseconds; a key the provider rejected is skipped this long
+  API_KEY_RATE_LIMIT_COOLDOWN: 60000, // 1 minute in milliseconds, when a rate-limited key's provider doesn't say how long
 };
\ No newline at end of file
@@ -1,11 +1,25 @@
 import { Devvit, Context, SettingsFormFieldValidatorEvent } from '@devvit/public-api';
 import { tokenBucketInstance } from './utils/tokenBucket.js';
-import { summarizeContent } from './utils/summaryUtils.js';
+import { summarizeContent, buildSummaryPrompts, getDomain, metadataVariables, SummaryOptions } from './utils/summaryUtils.js';
+import { validateTemplate, PROMPT_VARIABLES } from './utils/promptTemplate.js';
 import { DEFAULT_GEMINI_LIMITS } from './config/geminiLimits.js';
-import { processQueue } from './utils/queueProcessor.js';
-import { fetchArticleContent } from './utils/scrapeUtils.js';
-import { validateApiKey } from './utils/apiUtils.js';
+import { processQueue, regenerateSummary } from './utils/queueProcessor.js';
+import { getRecordedComment, upsertBotComment, summaryCommentKey, clearCommentRecord } from './utils/commentUtils.js';
+import { UnsupportedContentError, AuthError, LeaseUnavailableError } from './utils/errors.js';
+import { Lease, withPostClaim } from './utils/lease.js';
+import { resolvePostSource, fetchSourceContent, selfPostSkipReason } from './utils/postSource.js';
+import { checkApiKey, getConfiguredApiKey, getConfiguredApiKeys, ApiKeyStatus } from './utils/apiUtils.js';
+import { checkPostFilters, validateRegexSetting } from './utils/postFilter.js';
+import { resolveSummaryStyle, validateStyleRules, isSummaryStyle, STYLE_OPTIONS, STYLE_PRESETS } from './utils/summaryStyle.js';
+import { getDashboardStatus, formatDashboardStatus, applyQueueAction, recordRecentError, QueueAction } from './utils/dashboard.js';
+import { enqueuePost } from './utils/postQueue.js';
+import { resetDailyUsage } from './utils/apiKeyPool.js';
+import { getCachedSummary, cacheSummary, invalidateCachedSummary, summaryCacheUrls } from './utils/summaryCache.js';
+import { listDeadLetters, formatDeadLetters, requeueDeadLetters } from './utils/deadLetter.js';
+import { recordEnqueued, recordOutcome, timed, sendDailyDigest, getDailyMetrics, exportMetrics } from './utils/analytics.js';
+import { updateDiscussionSummary, scheduleDiscussionUpdates, processDiscussionQueue } from './utils/discussionSummary.js';
 import { CONSTANTS } from './config/constants.js';
+import { getProvider, PROVIDER_OPTIONS, DEFAULT_PROVIDER } from './providers/index.js';
 
 type PartialContext = Partial<Context>;
 
@@ -22,28 +36,80 @@ Devvit.addSettings([
     label: 'Enable Automatic Summarization:',
     defaultValue: true,
   },
+  {
+    type: 'select',
+    name: 'llm_provider',
+    label: 'AI provider:',
+    options: PROVIDER_OPTIONS,
+    defaultValue: [DEFAULT_PROVIDER],
+    multiSelect: false,
+  },
+  {
+    type: 'string',
+    name: 'llm_model',
+    label: 'Model name (leave blank for the provider default):',
+  },
+  {
+    type: 'string',
+    name: 'llm_base_url',
+    label: 'Base URL for OpenAI-compatible or local providers (e.g. http://my-server:11434):',
+  },
   {
     type: 'string',
     name: 'api_key',
-    label: 'Enter your Gemini API Key (get one athttps://aistudio.google.com/app/apikey):',
+    label: 'Enter your API Key for the selected provider (get a Gemini key at https://aistudio.google.com/app/apikey):',
     onValidate: async (event: SettingsFormFieldValidatorEvent<string>, context: Devvit.Context) => {
       const automaticMode = await context.settings.get('automatic_mode');
-      if (automaticMode && (!event.value || event.value.trim() === '')) {
+      const provider = await getProvider(context);
+      if (automaticMode && provider.requiresApiKey && (!event.value || event.value.trim() === '')) {
         return 'API Key is required when Automatic Summarization is enabled.';
       }
       if (event.value && event.value.trim() !== '') {
-        const isValid = await validateApiKey(event.value.trim(), context);
-        if (!isValid) {
+        // A key that is only out of quota is still accepted
+        const status = await checkApiKey(event.value.trim(), context);
+        if (status === 'invalid') {
           return 'Invalid API Key. Please check and try again.';
         }
+        if (status === 'unreachable') {
+          return 'Could not reach the provider to check the API Key. Please try again.';
+        }
+      }
+      return undefined;
+    },
+  },
+  {
+    type: 'paragraph',
+    name: 'additional_api_keys',
+    label: 'Additional API keys, one per line (used in turn, and in place of a key that is rejected or rate limited):',
+    onValidate: async (event: SettingsFormFieldValidatorEvent<string>, context: Devvit.Context) => {
+      const keys = (event.value ?? '').split(/[\s,]+/).filter(key => key !== '');
+      for (const [index, key] of keys.entries()) {
+        const status = await checkApiKey(key, context);
+        if (status === 'invalid') {
+          return `Additional API key ${index + 1} is invalid. Please check and try again.`;
+        }
+        if (status === 'unreachable') {
+          return 'Could not reach the provider to check the API keys. Please try again.';
+        }
       }
       return undefined;
     },
   },
+  {
+    type: 'select',
+    name: 'api_key_selection',
+    label: 'How to pick the API key for each request:',
+    options: [
+      { label: 'In turn (round robin)', value: 'round_robin' },
+      { label: 'The key with the fewest requests today', value: 'least_used' },
+    ],
+    defaultValue: ['round_robin'],
+    multiSelect: false,
+  },
   {
     type: 'number',
     name: 'requests_per_minute',
-    label: 'Set Maximum Requests per Minute:',
+    label: 'Set Maximum Requests per Minute (per API key):',
     defaultValue: DEFAULT_GEMINI_LIMITS.REQUESTS_PER_MINUTE,
     onValidate: async ({ value }) => {
       if (typeof value !== 'number' || value < 1) {
@@ -54,7 +120,7 @@ Devvit.addSettings([
   {
     type: 'number',
     name: 'tokens_per_minute',
-    label: 'Set Maximum Tokens per Minute:',
+    label: 'Set Maximum Tokens per Minute (per API key):',
     defaultValue: DEFAULT_GEMINI_LIMITS.TOKENS_PER_MINUTE,
     onValidate: async ({ value }) => {
       if (typeof value !== 'number' || value < 1) {
@@ -65,7 +131,7 @@ Devvit.addSettings([
   {
     type: 'number',
     name: 'requests_per_day',
-    label: 'Set Maximum Requests per Day:',
+    label: 'Set Maximum Requests per Day (per API key):',
     defaultValue: DEFAULT_GEMINI_LIMITS.REQUESTS_PER_DAY,
     onValidate: async ({ value }) => {
       if (typeof value !== 'number' || value < 1) {
@@ -73,10 +139,318 @@ Devvit.addSettings([
       }
     },
   },
+  {
+    type: 'number',
+    name: 'max_input_tokens',
+    label: 'Maximum input tokens per post:',
+    defaultValue: CONSTANTS.DEFAULT_MAX_INPUT_TOKENS,
+    onValidate: async ({ value }) => {
+      if (typeof value !== 'number' || value < 1000) {
+        return 'Maximum input tokens must be a number at least 1000';
+      }
+    },
+  },
+  {
+    type: 'select',
+    name: 'long_content_strategy',
+    label: 'When an article is over the input token limit:',
+    options: [
+      { label: 'Summarize it in parts, then combine (map-reduce)', value: 'map_reduce' },
+      { label: 'Truncate it to the limit', value: 'truncate' },
+      { label: 'Skip it', value: 'skip' },
+    ],
+    defaultValue: ['map_reduce'],
+    multiSelect: false,
+  },
+  {
+    type: 'number',
+    name: 'chunk_tokens',
+    label: 'Tokens per part when summarizing in parts:',
+    defaultValue: CONSTANTS.DEFAULT_CHUNK_TOKENS,
+    onValidate: async ({ value }) => {
+      if (typeof value !== 'number' || value < 500) {
+        return 'Tokens per part must be a number at least 500';
+      }
+    },
+  },
+  {
+    type: 'paragraph',
+    name: 'system_prompt',
+    label: 'System prompt (leave blank for the default):',
+    helpText: `Variables: ${PROMPT_VARIABLES.map(name => `{${name}}`).join(' ')}. Conditionals: {#if name}...{else}...{/if}. Use {{ and }} for literal braces.`,
+    onValidate: ({ value }) => {
+      if (value && value.trim() !== '') {
+        return validateTemplate(value);
+      }
+    },
+  },
+  {
+    type: 'paragraph',
+    name: 'user_prompt_template',
+    label: 'Summary request template (leave blank for the default):',
+    helpText: `Variables: ${PROMPT_VARIABLES.map(name => `{${name}}`).join(' ')}. Should include {content}.`,
+    onValidate: ({ value }) => {
+      if (value && value.trim() !== '') {
+        return validateTemplate(value);
+      }
+    },
+  },
+  {
+    type: 'select',
+    name: 'summary_style',
+    label: 'Summary style:',
+    helpText: 'Every style but Standard replaces the format and length the system prompt asks for.',
+    options: STYLE_OPTIONS,
+    defaultValue: ['default'],
+    multiSelect: false,
+  },
+  {
+    type: 'paragraph',
+    name: 'summary_style_domains',
+    label: 'Summary style by linked domain:',
+    helpText: `One "domain = style" rule per line, such as "*.nature.com = key_quotes". Use * as a wildcard. Styles: ${STYLE_OPTIONS.map(option => option.value).join(', ')}.`,
+    onValidate: ({ value }) => validateStyleRules(value),
+  },
+  {
+    type: 'paragraph',
+    name: 'summary_style_flairs',
+    label: 'Summary style by post flair (overrides the domain rules):',
+    helpText: 'One "flair = style" rule per line, such as "Science = eli5".',
+    onValidate: ({ value }) => validateStyleRules(value),
+  },
+  {
+    type: 'boolean',
+    name: 'summarize_self_posts',
+    label: 'Summarize long text posts:',
+    defaultValue: false,
+  },
+  {
+    type: 'number',
+    name: 'self_post_min_length',
+    label: 'Minimum text post length to summarize (characters):',
+    defaultValue: CONSTANTS.DEFAULT_SELF_POST_MIN_LENGTH,
+    onValidate: async ({ value }) => {
+      if (typeof value !== 'number' || value < 0) {
+        return 'Minimum text post length must be a number at least 0';
+      }
+    },
+  },
+  {
+    type: 'paragraph',
+    name: 'domain_blocklist',
+    label: 'Never summarize links to these domains (automatic mode):',
+    helpText: 'One per line or comma-separated. Use * as a wildcard; *.example.com also matches example.com.',
+    defaultValue: CONSTANTS.DEFAULT_DOMAIN_BLOCKLIST,
+  },
+  {
+    type: 'paragraph',
+    name: 'domain_allowlist',
+    label: 'Only summarize links to these domains (automatic mode, leave blank to allow all):',
+    helpText: 'One per line or comma-separated. Use * as a wildcard.',
+  },
+  {
+    type: 'string',
+    name: 'flair_include',
+    label: 'Only summarize posts with these flairs (comma-separated, leave blank for any):',
+  },
+  {
+    type: 'string',
+    name: 'flair_exclude',
+    label: 'Never summarize posts with these flairs (comma-separated):',
+  },
+  {
+    type: 'string',
+    name: 'title_include_regex',
+    label: 'Only summarize posts whose title matches this regular expression:',
+    onValidate: ({ value }) => validateRegexSetting(value),
+  },
+  {
+    type: 'string',
+    name: 'title_exclude_regex',
+    label: 'Never summarize posts whose title matches this regular expression:',
+    onValidate: ({ value }) => validateRegexSetting(value),
+  },
+  {
+    type: 'boolean',
+    name: 'exclude_nsfw',
+    label: 'Skip NSFW posts:',
+    defaultValue: false,
+  },
+  {
+    type: 'boolean',
+    name: 'exclude_spoilers',
+    label: 'Skip posts marked as spoilers:',
+    defaultValue: false,
+  },
+  {
+    type: 'number',
+    name: 'min_author_karma',
+    label: 'Minimum author karma (0 for no minimum):',
+    defaultValue: 0,
+    onValidate: async ({ value }) => {
+      if (typeof value !== 'number' || value < 0) {
+        return 'Minimum author karma must be a number at least 0';
+      }
+    },
+  },
+  {
+    type: 'number',
+    name: 'min_account_age_days',
+    label: 'Minimum author account age in days (0 for no minimum):',
+    defaultValue: 0,
+    onValidate: async ({ value }) => {
+      if (typeof value !== 'number' || value < 0) {
+        return 'Minimum account age must be a number at least 0';
+      }
+    },
+  },
+  {
+    type: 'number',
+    name: 'discussion_summary_interval_hours',
+    label: 'Update discussion summaries every N hours (0 to only update them when a moderator asks):',
+    defaultValue: 0,
+    onValidate: async ({ value }) => {
+      if (typeof value !== 'number' || value < 0 || value > 168) {
+        return 'Update interval must be a number between 0 and 168 hours';
+      }
+    },
+  },
+  {
+    type: 'number',
+    name: 'dead_letter_retention_days',
+    label: 'Keep failed posts for requeueing for this many days:',
+    defaultValue: CONSTANTS.DEFAULT_DEAD_LETTER_RETENTION_DAYS,
+    onValidate: async ({ value }) => {
+      if (typeof value !== 'number' || value < 1 || value > 90) {
+        return 'Retention must be a number between 1 and 90 days';
+      }
+    },
+  },
+  {
+    type: 'number',
+    name: 'summary_cache_ttl_hours',
+    label: 'Reuse the summary of a link for reposts within this many hours (0 to turn off):',
+    helpText: 'Links are matched after removing tracking parameters and AMP variants, and by the canonical URL the page names.',
+    defaultValue: CONSTANTS.DEFAULT_SUMMARY_CACHE_TTL_HOURS,
+    onValidate: async ({ value }) => {
+      if (typeof value !== 'number' || value < 0 || value > 720) {
+        return 'Cache time must be a number between 0 and 720 hours';
+      }
+    },
+  },
+  {
+    type: 'number',
+    name: 'retry_max_attempts',
+    label: 'Attempts per post before giving up:',
+    helpText: 'Covers network, server and Reddit errors. Rate-limited requests get twice as many attempts.',
+    defaultValue: CONSTANTS.DEFAULT_RETRY_MAX_ATTEMPTS,
+    onValidate: async ({ value }) => {
+      if (typeof value !== 'number' || value < 1 || value > 10) {
+        return 'Attempts must be a number between 1 and 10';
+      }
+    },
+  },
+  {
+    type: 'number',
+    name: 'retry_base_delay_minutes',
+    label: 'Minutes to wait before retrying a failed post:',
+    helpText: 'The wait roughly doubles after each failed attempt, up to 6 hours, or longer if the server asks for it.',
+    defaultValue: CONSTANTS.DEFAULT_RETRY_BASE_DELAY_MINUTES,
+    onValidate: async ({ value }) => {
+      if (typeof value !== 'number' || value < 1 || value > 360) {
+        return 'Retry delay must be a number between 1 and 360 minutes';
+      }
+    },
+  },
+  {
+    type: 'number',
+    name: 'retry_max_age_hours',
+    label: 'Stop retrying a post this many hours after its first attempt:',
+    defaultValue: CONSTANTS.DEFAULT_RETRY_MAX_AGE_HOURS,
+    onValidate: async ({ value }) => {
+      if (typeof value !== 'number' || value < 1 || value > 168) {
+        return 'Maximum retry age must be a number between 1 and 168 hours';
+      }
+    },
+  },
+  {
+    type: 'boolean',
+    name: 'daily_digest',
+    label: 'Send moderators a daily modmail report of summaries, failures and token use',
+    defaultValue: true,
+  },
+  {
+    type: 'number',
+    name: 'analytics_retention_days',
+    label: 'Days to keep daily usage statistics:',
+    defaultValue: CONSTANTS.DEFAULT_ANALYTICS_RETENTION_DAYS,
+    onValidate: async ({ value }) => {
+      if (typeof value !== 'number' || value < 1 || value > 365) {
+        return 'Retention must be a number between 1 and 365 days';
+      }
+    },
+  },
+  {
+    type: 'number',
+    name: 'queue_batch_size',
+    label: 'Posts to summarize per queue run (every 30 seconds):',
+    defaultValue: CONSTANTS.DEFAULT_QUEUE_BATCH_SIZE,
+    onValidate: async ({ value }) => {
+      if (typeof value !== 'number' || value < 1 || value > 50) {
+        return 'Batch size must be a number between 1 and 50';
+      }
+    },
+  },
+  {
+    type: 'number',
+    name: 'priority_score_threshold',
+    label: 'Summarize posts first once their score reaches:',
+    defaultValue: CONSTANTS.DEFAULT_PRIORITY_SCORE_THRESHOLD,
+    onValidate: async ({ value }) => {
+      if (typeof value !== 'number' || value < 1) {
+        return 'Score threshold must be a number at least 1';
+      }
+    },
+  },
+  {
+    type: 'number',
+    name: 'priority_comments_per_hour',
+    label: 'Summarize posts first once they get this many comments per hour:',
+    defaultValue: CONSTANTS.DEFAULT_PRIORITY_COMMENTS_PER_HOUR,
+    onValidate: async ({ value }) => {
+      if (typeof value !== 'number' || value < 1) {
+        return 'Comments per hour must be a number at least 1';
+      }
+    },
+  },
+  {
+    type: 'number',
+    name: 'queue_promotion_minutes',
+    label: 'Move a waiting post up one priority level every this many minutes:',
+    helpText: 'Keeps ordinary posts from waiting forever behind trending and moderator-requested ones.',
+    defaultValue: CONSTANTS.DEFAULT_QUEUE_PROMOTION_MINUTES,
+    onValidate: async ({ value }) => {
+      if (typeof value !== 'number' || value < 1 || value > 1440) {
+        return 'Promotion interval must be a number between 1 and 1440 minutes';
+      }
+    },
+  },
+  {
+    type: 'select',
+    name: 'fetch_strategy',
+    label: 'How to fetch linked pages:',
+    options: [
+      { label: 'Automatic (Ladder proxy if configured, otherwise direct)', value: 'auto' },
+      { label: 'Direct (respects robots.txt)', value: 'direct' },
+      { label: 'Ladder proxy', value: 'ladder' },
+    ],
+    defaultValue: ['auto'],
+    multiSelect: false,
+  },
   {
     type: 'boolean',
     name: 'include_scriptless_link',
-    label: 'Include script bypass link in summary:',
+    label: 'Include script bypass link in summary (Ladder proxy only):',
     defaultValue: true,
   },
   {
@@ -104,15 +478,16 @@ Devvit.addSettings([
 
 async function isReadyToProcess(context: PartialContext): Promise<boolean> {
   const automaticMode = await context.settings?.get('automatic_mode');
-  const apiKey = await context.settings?.get('api_key');
-  const isReady = Boolean(automaticMode && apiKey && typeof apiKey === 'string' && apiKey.trim() !== '');
+  // Includes the empty key of providers that don't need one
+  const apiKeys = await getConfiguredApiKeys(context);
+  const isReady = Boolean(automaticMode && apiKeys.length > 0);
   
   console.debug(`Ready to process: ${isReady}`);
   console.debug(`Automatic mode: ${automaticMode}`);
   
-  if (typeof apiKey === 'string' && apiKey.trim() !== '') {
-    const lastFourChars = apiKey.slice(-4);
-    console.debug(`API key status: Valid (last 4 characters: ${lastFourChars})`);
+  if (apiKeys.some(apiKey => apiKey !== '')) {
+    const lastFourChars = apiKeys.map(apiKey => apiKey.slice(-4)).join(', ');
+    console.debug(`API key status: ${apiKeys.length} configured (last 4 characters: ${lastFourChars})`);
   } else {
     console.debug('API key status: Invalid or missing');
   }
@@ -125,7 +500,9 @@ async function updateOrCreateJobs(context: PartialContext): Promise<Set<string>>
   const jobsToSchedule = [
     { name: 'reset_daily_requests', cron: CONSTANTS.CRON_DAILY_MIDNIGHT, redisKey: 'resetDailyRequestsJobId' },
     { name: 'cleanup_queue', cron: CONSTANTS.CRON_HOURLY, redisKey: 'cleanupQueueJobId' },
-    { name: 'process_queue', cron: CONSTANTS.CRON_EVERY_30_SECONDS, redisKey: 'processQueueJobId' }
+    { name: 'process_queue', cron: CONSTANTS.CRON_EVERY_30_SECONDS, redisKey: 'processQueueJobId' },
+    { name: 'update_discussion_summaries', cron: CONSTANTS.CRON_HOURLY, redisKey: 'updateDiscussionSummariesJobId' },
+    { name: 'send_daily_digest', cron: CONSTANTS.CRON_DAILY_DIGEST, redisKey: 'sendDailyDigestJobId' }
   ];
 
   const updatedJobIds = new Set<string>();
@@ -220,18 +597,39 @@ Devvit.addSchedulerJob({
   },
 });
 
+Devvit.addSchedulerJob({
+  name: 'reset_daily_requests',
+  onRun: async (event, context: PartialContext) => {
+    console.info('Running reset_daily_requests job...');
+    await resetDailyUsage(context);
+  },
+});
+
+Devvit.addSchedulerJob({
+  name: 'update_discussion_summaries',
+  onRun: async (event, context: PartialContext) => {
+    console.info('Running update_discussion_summaries job...');
+    await processDiscussionQueue(context);
+  },
+});
+
+Devvit.addSchedulerJob({
+  name: 'send_daily_digest',
+  onRun: async (event, context: PartialContext) => {
+    console.info('Running send_daily_digest job...');
+    await sendDailyDigest(context);
+  },
+});
+
 Devvit.addTrigger({
   event: 'AppUpgrade',
   onEvent: async (event, context: PartialContext) => {
-    const upgradeInProgress = await context.redis?.get('upgrade_in_progress');
-    if (upgradeInProgress) {
+    const lease = await Lease.acquire(context, 'app_upgrade', CONSTANTS.UPGRADE_LEASE_TTL);
+    if (!lease) {
       console.log('An upgrade is already in progress. Skipping this trigger.');
       return;
     }
     
-    await context.redis?.set('upgrade_in_progress', 'true');
-    await context.redis?.expire('upgrade_in_progress', 60);
-    
     try {
       const upgradeId = Date.now().toString();
       console.log(`Starting AppUpgrade process: ${upgradeId}`);
@@ -243,19 +641,31 @@ Devvit.addTrigger({
     } catch (e) {
       console.error('Error during AppUpgrade:', e);
     } finally {
-      await context.redis?.del('upgrade_in_progress');
+      await lease.release();
     }
   },
 });
 
+const API_KEY_STATUS_MESSAGES: Record<Exclude<ApiKeyStatus, 'valid'>, string> = {
+  invalid: 'Invalid API Key. Please check and try again.',
+  quota_exhausted: 'This API Key is out of quota right now. Please try again later.',
+  unreachable: 'Could not reach the provider to check the API Key. Please try again.',
+};
+
 const aiSummaryForm = Devvit.createForm(
   {
     fields: [
       {
         name: 'api_key',
-        label: 'Gemini API Key',
+        label: 'API Key',
         type: 'string',
-        required: true,
+        helpText: 'Leave blank to use the API keys from the app settings.',
+      },
+      {
+        name: 'model',
+        label: 'Model',
+        type: 'string',
+        helpText: 'Leave blank to use the model from the app settings.',
       },
       {
         name: 'temperature',
@@ -264,55 +674,170 @@ const aiSummaryForm = Devvit.createForm(
         defaultValue: CONSTANTS.DEFAULT_TEMPERATURE.toString(),
         required: true,
       },
+      {
+        name: 'max_length',
+        label: `Maximum summary length in characters (up to ${CONSTANTS.MAX_SUMMARY_LENGTH})`,
+        type: 'number',
+        defaultValue: CONSTANTS.MAX_SUMMARY_LENGTH,
+      },
+      {
+        name: 'language',
+        label: 'Language',
+        type: 'string',
+        helpText: 'Leave blank for the languages the system prompt asks for.',
+      },
+      {
+        name: 'style',
+        label: 'Style',
+        type: 'select',
+        options: [{ label: 'As the style settings say', value: 'auto' }, ...STYLE_OPTIONS],
+        defaultValue: ['auto'],
+      },
+      {
+        name: 'sticky',
+        label: 'Sticky the summary comment',
+        type: 'boolean',
+        defaultValue: true,
+      },
+      {
+        name: 'include_source_link',
+        label: 'Link to the source under the summary',
+        type: 'boolean',
+        defaultValue: false,
+      },
     ],
     title: 'Create AI Summary',
     acceptLabel: 'Generate Summary',
   },
   async (event, context) => {
     console.log('AI Summary form submitted');
-    const apiKey = event.values.api_key.trim();
+    const enteredKey = (event.values.api_key ?? '').trim();
     const temperature = parseFloat(event.values.temperature);
+    const maxLength = event.values.max_length ?? CONSTANTS.MAX_SUMMARY_LENGTH;
+    const sticky = event.values.sticky ?? true;
+    const chosenStyle = event.values.style?.[0];
+    const options: SummaryOptions = {
+      model: (event.values.model ?? '').trim() || undefined,
+      maxLength,
+      language: (event.values.language ?? '').trim() || undefined,
+      includeSourceLink: event.values.include_source_link ?? false,
+    };
+    // Summaries made with other choices than the settings' are not shared with reposts
+    const customized = Boolean(
+      options.model ||
+      options.language ||
+      options.includeSourceLink ||
+      maxLength < CONSTANTS.MAX_SUMMARY_LENGTH ||
+      temperature !== CONSTANTS.DEFAULT_TEMPERATURE
+    );
+    let sourceUrl: string | null = null;
     
     try {
-      if (!apiKey) {
-        throw new Error('API Key is required.');
+      // A key entered in the form is used on its own; otherwise the configured keys take turns
+      const apiKey = enteredKey || await getConfiguredApiKey(context);
+      if (apiKey === null) {
+        context.ui.showToast('Set an API key in the app settings or enter one in the form.');
+        return;
       }
 
-      // Validate the manually provided API key
-      const isValidApiKey = await validateApiKey(apiKey, context);
-      if (!isValidApiKey) {
-        context.ui.showToast('Invalid API Key. Please check and try again.');
-        throw new Error('Invalid API Key. Please check and try again.');
+      if (enteredKey) {
+        const keyStatus = await checkApiKey(enteredKey, context);
+        if (keyStatus !== 'valid') {
+          context.ui.showToast(API_KEY_STATUS_MESSAGES[keyStatus]);
+          return;
+        }
       }
 
       if (isNaN(temperature) || temperature < 0 || temperature > 1) {
-        throw new Error('Temperature must be a number between 0 and 1.');
+        context.ui.showToast('Temperature must be a number between 0 and 1.');
+        return;
+      }
+      if (maxLength < CONSTANTS.MIN_MANUAL_SUMMARY_LENGTH || maxLength > CONSTANTS.MAX_SUMMARY_LENGTH) {
+        context.ui.showToast(`Summary length must be between ${CONSTANTS.MIN_MANUAL_SUMMARY_LENGTH} and ${CONSTANTS.MAX_SUMMARY_LENGTH} characters.`);
+        return;
       }
 
       const postId = context.postId;
       if (!postId) {
-        throw new Error('Unable to identify the post.');
+        context.ui.showToast('Unable to identify the post. Please try again.');
+        return;
       }
 
       console.info(`Manual summarization initiated for post ID: ${postId}`);
       const post = await context.reddit.getPostById(postId);
       if (!post) {
-        throw new Error('Post not found.');
+        context.ui.showToast('Post not found.');
+        return;
       }
 
-      const { title, content, scriptlessUrl } = await fetchArticleContent(post.url, context);
-      console.log('Article content fetched');
+      // The claim keeps the queue from summarizing the post at the same time
+      await withPostClaim(context, postId, async () => {
+        if (await getRecordedComment(context, summaryCommentKey(postId))) {
+          context.ui.showToast('This post already has an AI summary.');
+          return;
+        }
+
+        const source = await resolvePostSource(post, context);
+        sourceUrl = source.url;
+        options.style = isSummaryStyle(chosenStyle)
+          ? chosenStyle
+          : await resolveSummaryStyle(context, post, source.selfText === null ? getDomain(source.url) : '');
+        if (source.selfText === null && !customized) {
+          const cached = await getCachedSummary(context, summaryCacheUrls(source.url), options.style);
+          if (cached) {
+            await upsertBotComment(context, summaryCommentKey(postId), postId, cached.summary, sticky);
+            await recordOutcome(context, 'cached', source.url);
+            context.ui.showToast('AI summary created from an earlier summary of this link.');
+            return;
+          }
+        }
+
+        const { title, content, scriptlessUrl, metadata, canonicalUrl } = await timed(context, 'fetch', () => fetchSourceContent(source, context));
+        console.log(`Article content fetched from ${source.kind} source`);
       
-      const includeScriptlessLink = await context.settings?.get('include_scriptless_link') as boolean;
+        const includeScriptlessLink = await context.settings?.get('include_scriptless_link') as boolean;
       
-      const summary = await summarizeContent(scriptlessUrl || post.url, title, content, context, apiKey, temperature, includeScriptlessLink);
-      console.log('Summary generated');
+        const summary = await timed(context, 'summarize', () => summarizeContent(
+          source.url,
+          title,
+          content,
+          context,
+          apiKey,
+          temperature,
+          includeScriptlessLink ? scriptlessUrl : null,
+          {
+            ...metadataVariables(metadata),
+            domain: getDomain(source.url),
+            post_title: post.title,
+            subreddit: post.subredditName,
+          },
+          options
+        ));
+        console.log('Summary generated');
+        if (source.selfText === null && !customized) {
+          await cacheSummary(context, summaryCacheUrls(source.url, canonicalUrl), { summary, title, postId, style: options.style });
+        }
       
-      await context.reddit.submitComment({ id: postId, text: summary });
-      console.log('Summary comment submitted');
-      context.ui.showToast('AI summary created successfully!');
+        await timed(context, 'comment', () => upsertBotComment(context, summaryCommentKey(postId), postId, summary, sticky));
+        await recordOutcome(context, 'summarized', source.url);
+        console.log('Summary comment submitted');
+        context.ui.showToast('AI summary created successfully!');
+      });
     } catch (error) {
       console.error('Error creating AI summary:', error);
+      if (error instanceof UnsupportedContentError) {
+        await recordOutcome(context, 'skipped', sourceUrl);
+        context.ui.showToast(`This post can't be summarized: ${error.reason}.`);
+        return;
+      }
+      if (error instanceof LeaseUnavailableError) {
+        context.ui.showToast('This post is being summarized right now. Please try again in a minute.');
+        return;
+      }
+      if (context.postId) {
+        await recordRecentError(context, context.postId, error);
+      }
+      await recordOutcome(context, 'failed', sourceUrl, error);
       context.ui.showToast('Failed to create AI summary.');
     }
   }
@@ -321,18 +846,11 @@ const aiSummaryForm = Devvit.createForm(
 Devvit.addMenuItem({
   label: 'Create an AI Summary',
   location: 'post',
+  // Summaries use the subreddit's API keys unless a key is entered
+  forUserType: 'moderator',
   onPress: async (event, context) => {
     console.log('AI Summary menu item pressed');
     try {
-      const settings = await context.settings?.getAll();
-      console.log('Settings retrieved:', settings);
-
-      if (settings?.automatic_mode) {
-        console.log('Automatic mode is enabled');
-        context.ui.showToast('Automatic summarization is enabled. Manual summarization is disabled.');
-        return;
-      }
-
       if (!context.postId) {
         console.error('Unable to identify the post');
         context.ui.showToast('Unable to identify the post. Please try again.');
@@ -342,9 +860,21 @@ Devvit.addMenuItem({
       const post = await context.reddit.getPostById(context.postId);
       console.log('Post retrieved:', post);
 
-      if (!post || !post.url || post.url === `https://www.reddit.com${post.permalink}`) {
-        console.error('Invalid post URL');
-        context.ui.showToast('This post does not have a valid URL to summarize.');
+      if (!post) {
+        console.error('Post not found');
+        context.ui.showToast('Unable to identify the post. Please try again.');
+        return;
+      }
+
+      if (await getRecordedComment(context, summaryCommentKey(post.id))) {
+        context.ui.showToast('This post already has an AI summary. Moderators can use "Regenerate summary" to refresh it.');
+        return;
+      }
+
+      const skipReason = await selfPostSkipReason(await resolvePostSource(post, context), context);
+      if (skipReason) {
+        console.log(`Post can't be summarized: ${skipReason}`);
+        context.ui.showToast(`This post can't be summarized: ${skipReason}.`);
         return;
       }
 
@@ -352,19 +882,435 @@ Devvit.addMenuItem({
       context.ui.showForm(aiSummaryForm);
     } catch (error) {
       console.error('Error in AI Summary menu item:', error);
+      if (error instanceof UnsupportedContentError) {
+        context.ui.showToast(`This post can't be summarized: ${error.reason}.`);
+        return;
+      }
       context.ui.showToast('An error occurred while processing your request. Please try again.');
     }
   },
 });
 
+const promptPreviewForm = Devvit.createForm(
+  (data) => ({
+    fields: [
+      {
+        name: 'system_prompt',
+        label: 'System prompt',
+        type: 'paragraph',
+        defaultValue: data.systemPrompt as string,
+      },
+      {
+        name: 'user_prompt',
+        label: 'Summary request',
+        type: 'paragraph',
+        defaultValue: data.userPrompt as string,
+        helpText: data.helpText as string,
+      },
+    ],
+    title: 'Prompt Preview',
+    acceptLabel: 'Close',
+  }),
+  async () => {}
+);
+
+Devvit.addMenuItem({
+  label: 'Preview AI summary prompt',
+  location: 'post',
+  forUserType: 'moderator',
+  onPress: async (event, context) => {
+    try {
+      if (!context.postId) {
+        context.ui.showToast('Unable to identify the post. Please try again.');
+        return;
+      }
+
+      const post = await context.reddit.getPostById(context.postId);
+      const source = await resolvePostSource(post, context);
+      const style = await resolveSummaryStyle(context, post, source.selfText === null ? getDomain(source.url) : '');
+      const { title, content, metadata } = await fetchSourceContent(source, context);
+      const { systemPrompt, userPrompt } = await buildSummaryPrompts(
+        context,
+        source.url,
+        title,
+        content,
+        {
+          ...metadataVariables(metadata),
+          domain: getDomain(source.url),
+          post_title: post.title,
+          subreddit: post.subredditName,
+        },
+        { style },
+        null
+      );
+
+      const truncated = userPrompt.length > CONSTANTS.PROMPT_PREVIEW_MAX_LENGTH;
+      context.ui.showForm(promptPreviewForm, {
+        systemPrompt,
+        userPrompt: truncated ? `${userPrompt.slice(0, CONSTANTS.PROMPT_PREVIEW_MAX_LENGTH)}…` : userPrompt,
+        helpText: `${userPrompt.length} characters${truncated ? ', truncated for display' : ''}, in the ${STYLE_PRESETS[style].label} style. The model was not called.`,
+      });
+    } catch (error) {
+      console.error('Error previewing prompt:', error);
+      if (error instanceof UnsupportedContentError) {
+        context.ui.showToast(`This post can't be summarized: ${error.reason}.`);
+        return;
+      }
+      context.ui.showToast('Failed to render the prompt preview.');
+    }
+  },
+});
+
+Devvit.addMenuItem({
+  label: 'Regenerate summary',
+  location: 'post',
+  forUserType: 'moderator',
+  onPress: async (event, context) => {
+    try {
+      if (!context.postId) {
+        context.ui.showToast('Unable to identify the post. Please try again.');
+        return;
+      }
+
+      const status = await regenerateSummary(context.postId, context);
+      context.ui.showToast(status === 'created' ? 'AI summary created.' : 'AI summary updated.');
+    } catch (error) {
+      console.error('Error regenerating summary:', error);
+      if (error instanceof UnsupportedContentError) {
+        context.ui.showToast(`This post can't be summarized: ${error.reason}.`);
+        return;
+      }
+      if (error instanceof AuthError) {
+        context.ui.showToast('Set a valid API key in the app settings to regenerate summaries.');
+        return;
+      }
+      if (error instanceof LeaseUnavailableError) {
+        context.ui.showToast('This post is being summarized right now. Please try again in a minute.');
+        return;
+      }
+      context.ui.showToast('Failed to regenerate the AI summary.');
+    }
+  },
+});
+
+Devvit.addMenuItem({
+  label: 'Clear cached AI summary',
+  location: 'post',
+  forUserType: 'moderator',
+  onPress: async (event, context) => {
+    try {
+      const post = context.postId ? await context.reddit.getPostById(context.postId) : null;
+      if (!post) {
+        context.ui.showToast('Unable to identify the post. Please try again.');
+        return;
+      }
+
+      const source = await resolvePostSource(post, context);
+      if (source.selfText !== null) {
+        context.ui.showToast('Summaries of text posts are not cached.');
+        return;
+      }
+
+      const removed = await invalidateCachedSummary(context, summaryCacheUrls(source.url));
+      context.ui.showToast(removed > 0
+        ? 'Cached summary cleared. The next post of this link will be summarized again.'
+        : 'There is no cached summary for this link.');
+    } catch (error) {
+      console.error('Error clearing the cached summary:', error);
+      context.ui.showToast('Failed to clear the cached summary.');
+    }
+  },
+});
+
+Devvit.addMenuItem({
+  label: 'Summarize discussion',
+  location: 'post',
+  forUserType: 'moderator',
+  onPress: async (event, context) => {
+    try {
+      if (!context.postId) {
+        context.ui.showToast('Unable to identify the post. Please try again.');
+        return;
+      }
+
+      const apiKey = await getConfiguredApiKey(context);
+      if (apiKey === null) {
+        context.ui.showToast('Set an API key in the app settings to summarize discussions.');
+        return;
+      }
+
+      const result = await updateDiscussionSummary(context.postId, context, apiKey);
+      if (result.status === 'skipped') {
+        context.ui.showToast(`Discussion not summarized: ${result.reason}.`);
+        return;
+      }
+
+      const scheduled = await scheduleDiscussionUpdates(context.postId, context);
+      const action = result.status === 'created' ? 'posted' : 'updated';
+      context.ui.showToast(`Discussion summary ${action}${scheduled ? ' and will be kept up to date' : ''}.`);
+    } catch (error) {
+      console.error('Error summarizing discussion:', error);
+      context.ui.showToast('Failed to summarize the discussion.');
+    }
+  },
+});
+
+const dashboardForm = Devvit.createForm(
+  (data) => ({
+    fields: [
+      {
+        name: 'overview',
+        label: 'Status',
+        type: 'paragraph',
+        defaultValue: data.overview as string,
+        disabled: true,
+      },
+      {
+        name: 'queue',
+        label: 'Next queued posts',
+        type: 'paragraph',
+        defaultValue: data.queue as string,
+        disabled: true,
+      },
+      {
+        name: 'errors',
+        label: 'Recent errors',
+        type: 'paragraph',
+        defaultValue: data.errors as string,
+        disabled: true,
+      },
+      {
+        name: 'keys',
+        label: 'API keys',
+        type: 'paragraph',
+        defaultValue: data.keys as string,
+        disabled: true,
+      },
+      {
+        name: 'post_id',
+        label: 'Queued post',
+        type: 'select',
+        options: data.postOptions as { label: string; value: string }[],
+        multiSelect: false,
+      },
+      {
+        name: 'action',
+        label: 'Action',
+        type: 'select',
+        options: [
+          { label: 'Retry now (resets the retry count)', value: 'retry' },
+          { label: 'Move to the front of the queue', value: 'prioritize' },
+          { label: 'Drop from the queue', value: 'drop' },
+        ],
+        multiSelect: false,
+      },
+    ],
+    title: 'AI Summaries Dashboard',
+    acceptLabel: 'Apply',
+    cancelLabel: 'Close',
+  }),
+  async (event, context) => {
+    const postId = (event.values.post_id as string[] | undefined)?.[0];
+    const action = (event.values.action as string[] | undefined)?.[0] as QueueAction | undefined;
+    if (!postId || !action) {
+      return;
+    }
+
+    try {
+      await applyQueueAction(context, postId, action);
+      context.ui.showToast(`Applied "${action}" to ${postId}.`);
+    } catch (error) {
+      console.error('Error applying dashboard action:', error);
+      context.ui.showToast('Failed to update the queue.');
+    }
+  }
+);
+
+Devvit.addMenuItem({
+  label: 'AI summaries dashboard',
+  location: 'subreddit',
+  forUserType: 'moderator',
+  onPress: async (event, context) => {
+    try {
+      const status = await getDashboardStatus(context);
+      context.ui.showForm(dashboardForm, {
+        ...formatDashboardStatus(status),
+        postOptions: status.nextDue.map(post => ({
+          label: `${post.postId} ${post.title}`.slice(0, 100),
+          value: post.postId,
+        })),
+      });
+    } catch (error) {
+      console.error('Error loading dashboard:', error);
+      context.ui.showToast('Failed to load the dashboard.');
+    }
+  },
+});
+
+const deadLetterForm = Devvit.createForm(
+  (data) => ({
+    fields: [
+      {
+        name: 'entries',
+        label: 'Failed posts',
+        type: 'paragraph',
+        defaultValue: data.entries as string,
+        disabled: true,
+      },
+      {
+        name: 'post_id',
+        label: 'Requeue one post',
+        type: 'select',
+        options: data.postOptions as { label: string; value: string }[],
+        multiSelect: false,
+      },
+      {
+        name: 'error_class',
+        label: 'Requeue every post that failed with',
+        type: 'select',
+        options: data.classOptions as { label: string; value: string }[],
+        multiSelect: false,
+      },
+    ],
+    title: 'Failed AI Summaries',
+    acceptLabel: 'Requeue',
+    cancelLabel: 'Close',
+  }),
+  async (event, context) => {
+    const postId = (event.values.post_id as string[] | undefined)?.[0];
+    const errorClass = (event.values.error_class as string[] | undefined)?.[0];
+    if (!postId && !errorClass) {
+      return;
+    }
+
+    try {
+      const requeued = await requeueDeadLetters(context, { postId, errorClass });
+      context.ui.showToast(`Requeued ${requeued} post${requeued === 1 ? '' : 's'}.`);
+    } catch (error) {
+      console.error('Error requeueing failed posts:', error);
+      context.ui.showToast('Failed to requeue posts.');
+    }
+  }
+);
+
+Devvit.addMenuItem({
+  label: 'Failed AI summaries',
+  location: 'subreddit',
+  forUserType: 'moderator',
+  onPress: async (event, context) => {
+    try {
+      const entries = await listDeadLetters(context);
+      const classCounts = new Map<string, number>();
+      for (const entry of entries) {
+        classCounts.set(entry.errorClass, (classCounts.get(entry.errorClass) ?? 0) + 1);
+      }
+
+      context.ui.showForm(deadLetterForm, {
+        entries: formatDeadLetters(entries),
+        postOptions: entries.map(entry => ({
+          label: `${entry.postId} (${entry.errorClass})`,
+          value: entry.postId,
+        })),
+        classOptions: [...classCounts].map(([errorClass, count]) => ({
+          label: `${errorClass} (${count})`,
+          value: errorClass,
+        })),
+      });
+    } catch (error) {
+      console.error('Error loading failed posts:', error);
+      context.ui.showToast('Failed to load failed posts.');
+    }
+  },
+});
+
+const statsExportForm = Devvit.createForm(
+  {
+    fields: [
+      {
+        name: 'format',
+        label: 'Format',
+        type: 'select',
+        options: [
+          { label: 'CSV', value: 'csv' },
+          { label: 'JSON', value: 'json' },
+        ],
+        defaultValue: ['csv'],
+        multiSelect: false,
+      },
+      {
+        name: 'days',
+        label: 'Days to include, up to today',
+        type: 'number',
+        defaultValue: 7,
+      },
+    ],
+    title: 'Export AI Summary Stats',
+    acceptLabel: 'Export',
+  },
+  async (event, context) => {
+    const format = (event.values.format as string[] | undefined)?.[0] === 'json' ? 'json' : 'csv';
+    const retentionDays = (await context.settings.get<number>('analytics_retention_days')) || CONSTANTS.DEFAULT_ANALYTICS_RETENTION_DAYS;
+    // Older days have expired, so they would only add empty rows
+    const days = Math.min(Math.max(Math.floor((event.values.days as number | undefined) ?? 7), 1), retentionDays);
+
+    try {
+      const metrics = await getDailyMetrics(context, days);
+      context.ui.showForm(statsResultForm, { format: format.toUpperCase(), data: exportMetrics(metrics, format) });
+    } catch (error) {
+      console.error('Error exporting stats:', error);
+      context.ui.showToast('Failed to export stats.');
+    }
+  }
+);
+
+const statsResultForm = Devvit.createForm(
+  (data) => ({
+    fields: [
+      {
+        name: 'data',
+        label: `Daily stats (${data.format as string}), to copy`,
+        type: 'paragraph',
+        defaultValue: data.data as string,
+      },
+    ],
+    title: 'AI Summary Stats',
+    acceptLabel: 'Close',
+  }),
+  async () => {}
+);
+
+Devvit.addMenuItem({
+  label: 'Export AI summary stats',
+  location: 'subreddit',
+  forUserType: 'moderator',
+  onPress: async (event, context) => {
+    context.ui.showForm(statsExportForm);
+  },
+});
+
 Devvit.addTrigger({
   event: 'PostSubmit',
   onEvent: async (event, context: PartialContext) => {
     if (!event.post) return;
     const postId = event.post.id;
-    const timestamp = Date.now();
-    console.debug(`Enqueuing post ID: ${postId} at ${timestamp}`);
-    await context.redis?.zAdd('post_queue', { member: postId, score: timestamp });
+
+    const post = await context.reddit?.getPostById(postId);
+    const filterMatch = post ? await checkPostFilters(post, context) : null;
+    if (filterMatch) {
+      console.info(`Not enqueuing post ID ${postId}: matched filter rule ${filterMatch.rule} (${filterMatch.detail})`);
+      return;
+    }
+
+    console.debug(`Enqueuing post ID: ${postId}`);
+    await enqueuePost(context, postId);
+    await recordEnqueued(context);
+  },
+});
+
+Devvit.addTrigger({
+  event: 'CommentDelete',
+  onEvent: async (event, context: PartialContext) => {
+    await clearCommentRecord(context, event.postId, event.commentId);
   },
 });
 
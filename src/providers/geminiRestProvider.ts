@@ -0,0 +1,119 @@
+import { CONSTANTS } from '../config/constants.js';
+import { GenerationRequest, GenerationResult, LLMProvider, ProviderConfig, ProviderError, checkKeyResponse, parseRetryAfter, parseRetryInfo } from './types.js';
+
+/**
+ * Calls the Gemini generateContent REST endpoint directly with fetch.
+ */
+export class GeminiRestProvider implements LLMProvider {
+  readonly name = 'gemini_rest' as const;
+  readonly requiresApiKey = true;
+  readonly model: string;
+
+  constructor(config: ProviderConfig) {
+    this.model = config.model;
+  }
+
+  async generate(request: GenerationRequest, apiKey: string): Promise<GenerationResult> {
+    console.debug(`Calling Gemini API (fetch) with model ${this.model}...`);
+    const endpoint = `${CONSTANTS.GEMINI_API_BASE_URL}/${this.model}:generateContent`;
+
+    let response: Response;
+    try {
+      response = await fetch(`${endpoint}?key=${apiKey}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          systemInstruction: { parts: [{ text: request.systemPrompt }] },
+          contents: [{ role: 'user', parts: [{ text: request.userPrompt }] }],
+          generationConfig: {
+            temperature: request.temperature,
+            maxOutputTokens: request.maxOutputTokens,
+          },
+        }),
+      });
+    } catch (error) {
+      throw ProviderError.wrap(this.name, error);
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const message: string = errorData.error?.message || 'Unknown error';
+      console.error('Gemini API error:', errorData);
+      // Gemini reports a malformed or revoked key as a 400 rather than a 401
+      if (response.status === 400 && message.includes('API key not valid')) {
+        throw new ProviderError(this.name, 'auth', message, response.status);
+      }
+      const retryAfterMs = parseRetryAfter(response.headers.get('retry-after')) ?? parseRetryInfo(errorData.error?.details);
+      throw ProviderError.fromStatus(this.name, response.status, `HTTP error! status: ${response.status}, message: ${message}`, retryAfterMs);
+    }
+
+    const result = await response.json();
+    if (result.promptFeedback?.blockReason) {
+      throw new ProviderError(this.name, 'safety', `Prompt blocked: ${result.promptFeedback.blockReason}`);
+    }
+
+    const candidate = result.candidates?.[0];
+    if (candidate?.finishReason === 'SAFETY') {
+      throw new ProviderError(this.name, 'safety', 'Response blocked by safety filters');
+    }
+
+    const text: string | undefined = candidate?.content?.parts?.map((part: { text?: string }) => part.text ?? '').join('');
+    if (!text) {
+      throw new ProviderError(this.name, 'empty_response', 'Gemini API returned an empty summary.');
+    }
+
+    const usageMetadata = result.usageMetadata;
+    return {
+      text,
+      model: this.model,
+      usage: usageMetadata
+        ? {
+            inputTokens: usageMetadata.promptTokenCount ?? 0,
+            outputTokens: usageMetadata.candidatesTokenCount ?? 0,
+            totalTokens: usageMetadata.totalTokenCount ?? 0,
+          }
+        : null,
+    };
+  }
+
+  async countTokens(request: GenerationRequest, apiKey: string): Promise<number> {
+    const endpoint = `${CONSTANTS.GEMINI_API_BASE_URL}/${this.model}:countTokens`;
+    let response: Response;
+    try {
+      response = await fetch(`${endpoint}?key=${apiKey}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          generateContentRequest: {
+            model: `models/${this.model}`,
+            systemInstruction: { parts: [{ text: request.systemPrompt }] },
+            contents: [{ role: 'user', parts: [{ text: request.userPrompt }] }],
+          },
+        }),
+      });
+    } catch (error) {
+      throw ProviderError.wrap(this.name, error);
+    }
+
+    if (!response.ok) {
+      throw ProviderError.fromStatus(this.name, response.status, `countTokens failed with status ${response.status}`);
+    }
+
+    const result = await response.json();
+    return result.totalTokens ?? 0;
+  }
+
+  async validateApiKey(apiKey: string): Promise<boolean> {
+    let response: Response;
+    try {
+      response = await fetch(`${CONSTANTS.GEMINI_API_TEST_ENDPOINT}?key=${apiKey}`);
+    } catch (error) {
+      throw ProviderError.wrap(this.name, error);
+    }
+    return checkKeyResponse(this.name, response);
+  }
+}
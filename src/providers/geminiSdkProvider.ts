@@ -0,0 +1,103 @@
+import {
+  GoogleGenerativeAI,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIResponseError,
+} from '@google/generative-ai';
+import { CONSTANTS } from '../config/constants.js';
+import { GenerationRequest, GenerationResult, LLMProvider, ProviderConfig, ProviderError, checkKeyResponse, parseRetryInfo } from './types.js';
+
+/**
+ * Calls Gemini through the official @google/generative-ai SDK.
+ */
+export class GeminiSdkProvider implements LLMProvider {
+  readonly name = 'gemini_sdk' as const;
+  readonly requiresApiKey = true;
+  readonly model: string;
+
+  constructor(config: ProviderConfig) {
+    this.model = config.model;
+  }
+
+  async generate(request: GenerationRequest, apiKey: string): Promise<GenerationResult> {
+    console.debug(`Calling Gemini API (SDK) with model ${this.model}...`);
+    try {
+      const geminiModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+        model: this.model,
+        systemInstruction: request.systemPrompt,
+      });
+
+      const result = await geminiModel.generateContent({
+        contents: [{ role: 'user', parts: [{ text: request.userPrompt }] }],
+        generationConfig: {
+          temperature: request.temperature,
+          maxOutputTokens: request.maxOutputTokens,
+        },
+      });
+
+      const response = result.response;
+      // text() throws a GoogleGenerativeAIResponseError when the candidate was blocked
+      const text = response.text();
+      if (!text) {
+        throw new ProviderError(this.name, 'empty_response', 'Gemini API returned an empty summary.');
+      }
+
+      const usageMetadata = response.usageMetadata;
+      return {
+        text,
+        model: this.model,
+        usage: usageMetadata
+          ? {
+              inputTokens: usageMetadata.promptTokenCount,
+              outputTokens: usageMetadata.candidatesTokenCount,
+              totalTokens: usageMetadata.totalTokenCount,
+            }
+          : null,
+      };
+    } catch (error) {
+      throw this.normalizeError(error);
+    }
+  }
+
+  async countTokens(request: GenerationRequest, apiKey: string): Promise<number> {
+    try {
+      const geminiModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+        model: this.model,
+        systemInstruction: request.systemPrompt,
+      });
+      const result = await geminiModel.countTokens({
+        generateContentRequest: {
+          systemInstruction: request.systemPrompt,
+          contents: [{ role: 'user', parts: [{ text: request.userPrompt }] }],
+        },
+      });
+      return result.totalTokens;
+    } catch (error) {
+      throw this.normalizeError(error);
+    }
+  }
+
+  async validateApiKey(apiKey: string): Promise<boolean> {
+    let response: Response;
+    try {
+      response = await fetch(`${CONSTANTS.GEMINI_API_TEST_ENDPOINT}?key=${apiKey}`);
+    } catch (error) {
+      throw ProviderError.wrap(this.name, error);
+    }
+    return checkKeyResponse(this.name, response);
+  }
+
+  private normalizeError(error: unknown): ProviderError {
+    if (error instanceof GoogleGenerativeAIFetchError) {
+      if (error.message.includes('API key not valid') || error.message.includes('PERMISSION_DENIED')) {
+        return new ProviderError(this.name, 'auth', error.message, error.status);
+      }
+      if (error.status) {
+        return ProviderError.fromStatus(this.name, error.status, error.message, parseRetryInfo(error.errorDetails));
+      }
+    }
+    if (error instanceof GoogleGenerativeAIResponseError) {
+      return new ProviderError(this.name, 'safety', error.message);
+    }
+    return ProviderError.wrap(this.name, error);
+  }
+}
@@ -0,0 +1,56 @@
+import { Context } from '@devvit/public-api';
+import { GeminiRestProvider } from './geminiRestProvider.js';
+import { GeminiSdkProvider } from './geminiSdkProvider.js';
+import { OpenAIProvider } from './openAIProvider.js';
+import { LocalProvider } from './localProvider.js';
+import { LLMProvider, ProviderConfig, ProviderName } from './types.js';
+
+export * from './types.js';
+
+type PartialContext = Partial<Context>;
+
+export const DEFAULT_PROVIDER: ProviderName = 'gemini_rest';
+
+export const DEFAULT_MODELS: Record<ProviderName, string> = {
+  gemini_rest: 'gemini-1.5-flash',
+  gemini_sdk: 'gemini-1.5-flash',
+  openai: 'gpt-4o-mini',
+  local: 'llama3.1',
+};
+
+export const PROVIDER_OPTIONS: { label: string; value: ProviderName }[] = [
+  { label: 'Google Gemini (REST)', value: 'gemini_rest' },
+  { label: 'Google Gemini (SDK)', value: 'gemini_sdk' },
+  { label: 'OpenAI-compatible API', value: 'openai' },
+  { label: 'Local / self-hosted endpoint', value: 'local' },
+];
+
+export function createProvider(name: ProviderName, config: ProviderConfig): LLMProvider {
+  switch (name) {
+    case 'gemini_sdk':
+      return new GeminiSdkProvider(config);
+    case 'openai':
+      return new OpenAIProvider(config);
+    case 'local':
+      return new LocalProvider(config);
+    case 'gemini_rest':
+    default:
+      return new GeminiRestProvider(config);
+  }
+}
+
+/**
+ * Builds the provider selected in the subreddit's app settings.
+ * @param {PartialContext} context - The application context.
+ * @param {string} modelOverride - A model to use instead of the configured one, for a single run.
+ * @returns {Promise<LLMProvider>}
+ */
+export async function getProvider(context: PartialContext, modelOverride: string = ''): Promise<LLMProvider> {
+  const selected = await context.settings?.get<string[]>('llm_provider');
+  const name = (selected?.[0] as ProviderName | undefined) ?? DEFAULT_PROVIDER;
+  const model = modelOverride.trim() || ((await context.settings?.get<string>('llm_model')) ?? '').trim() || DEFAULT_MODELS[name];
+  const baseUrl = ((await context.settings?.get<string>('llm_base_url')) ?? '').trim();
+
+  console.debug(`Using LLM provider ${name} with model ${model}`);
+  return createProvider(name, { model, baseUrl });
+}
@@ -0,0 +1,92 @@
+import { GenerationRequest, GenerationResult, LLMProvider, ProviderConfig, ProviderError, checkKeyResponse, parseRetryAfter } from './types.js';
+
+/**
+ * Calls a self-hosted server (Ollama, llama.cpp, vLLM, ...) through its
+ * OpenAI-compatible /v1/chat/completions route. An API key is optional and is
+ * only sent when one is configured.
+ */
+export class LocalProvider implements LLMProvider {
+  readonly name = 'local' as const;
+  readonly requiresApiKey = false;
+  readonly model: string;
+  private readonly baseUrl: string;
+
+  constructor(config: ProviderConfig) {
+    this.model = config.model;
+    this.baseUrl = (config.baseUrl ?? '').replace(/\/+$/, '');
+  }
+
+  async generate(request: GenerationRequest, apiKey: string): Promise<GenerationResult> {
+    if (!this.baseUrl) {
+      throw new ProviderError(this.name, 'bad_request', 'Local endpoint URL is not configured.');
+    }
+    console.debug(`Calling local endpoint ${this.baseUrl} with model ${this.model}...`);
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/v1/chat/completions`, {
+        method: 'POST',
+        headers: this.buildHeaders(apiKey),
+        body: JSON.stringify({
+          model: this.model,
+          temperature: request.temperature,
+          max_tokens: request.maxOutputTokens,
+          stream: false,
+          messages: [
+            { role: 'system', content: request.systemPrompt },
+            { role: 'user', content: request.userPrompt },
+          ],
+        }),
+      });
+    } catch (error) {
+      throw ProviderError.wrap(this.name, error);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      throw ProviderError.fromStatus(
+        this.name,
+        response.status,
+        `HTTP error! status: ${response.status}, message: ${errorText || 'Unknown error'}`,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+
+    const result = await response.json();
+    const text: string | undefined = result.choices?.[0]?.message?.content;
+    if (!text) {
+      throw new ProviderError(this.name, 'empty_response', 'Local endpoint returned an empty summary.');
+    }
+
+    return {
+      text,
+      model: result.model || this.model,
+      usage: result.usage
+        ? {
+            inputTokens: result.usage.prompt_tokens ?? 0,
+            outputTokens: result.usage.completion_tokens ?? 0,
+            totalTokens: result.usage.total_tokens ?? 0,
+          }
+        : null,
+    };
+  }
+
+  async validateApiKey(apiKey: string): Promise<boolean> {
+    if (!this.baseUrl) return false;
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/v1/models`, { headers: this.buildHeaders(apiKey) });
+    } catch (error) {
+      throw ProviderError.wrap(this.name, error);
+    }
+    return checkKeyResponse(this.name, response);
+  }
+
+  private buildHeaders(apiKey: string): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+    return headers;
+  }
+}
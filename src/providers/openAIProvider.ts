@@ -0,0 +1,82 @@
+import OpenAI from 'openai';
+import { GenerationRequest, GenerationResult, LLMProvider, ProviderConfig, ProviderError, parseRetryAfter } from './types.js';
+
+/**
+ * Calls any OpenAI-compatible chat completions API through the openai SDK.
+ * A custom base URL allows pointing at compatible hosted services.
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  readonly requiresApiKey = true;
+  readonly model: string;
+  private readonly baseUrl?: string;
+
+  constructor(config: ProviderConfig) {
+    this.model = config.model;
+    this.baseUrl = config.baseUrl || undefined;
+  }
+
+  async generate(request: GenerationRequest, apiKey: string): Promise<GenerationResult> {
+    console.debug(`Calling OpenAI-compatible API with model ${this.model}...`);
+    try {
+      const client = new OpenAI({ apiKey, baseURL: this.baseUrl, maxRetries: 0 });
+      const completion = await client.chat.completions.create({
+        model: this.model,
+        temperature: request.temperature,
+        max_tokens: request.maxOutputTokens,
+        messages: [
+          { role: 'system', content: request.systemPrompt },
+          { role: 'user', content: request.userPrompt },
+        ],
+      });
+
+      const choice = completion.choices[0];
+      if (choice?.finish_reason === 'content_filter') {
+        throw new ProviderError(this.name, 'safety', 'Response blocked by content filter');
+      }
+
+      const text = choice?.message?.content;
+      if (!text) {
+        throw new ProviderError(this.name, 'empty_response', 'OpenAI-compatible API returned an empty summary.');
+      }
+
+      return {
+        text,
+        model: completion.model || this.model,
+        usage: completion.usage
+          ? {
+              inputTokens: completion.usage.prompt_tokens,
+              outputTokens: completion.usage.completion_tokens,
+              totalTokens: completion.usage.total_tokens,
+            }
+          : null,
+      };
+    } catch (error) {
+      throw this.normalizeError(error);
+    }
+  }
+
+  async validateApiKey(apiKey: string): Promise<boolean> {
+    try {
+      const client = new OpenAI({ apiKey, baseURL: this.baseUrl, maxRetries: 0 });
+      await client.models.list();
+      return true;
+    } catch (error) {
+      if (error instanceof OpenAI.AuthenticationError || error instanceof OpenAI.PermissionDeniedError) {
+        return false;
+      }
+      throw this.normalizeError(error);
+    }
+  }
+
+  private normalizeError(error: unknown): ProviderError {
+    if (error instanceof ProviderError) return error;
+    if (error instanceof OpenAI.APIConnectionError) {
+      return new ProviderError(this.name, 'network', error.message);
+    }
+    if (error instanceof OpenAI.APIError && error.status) {
+      return ProviderError.fromStatus(this.name, error.status, error.message, parseRetryAfter(error.headers?.['retry-after']));
+    }
+    return ProviderError.wrap(this.name, error);
+  }
+}
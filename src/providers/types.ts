@@ -0,0 +1,156 @@
+export type ProviderName = 'gemini_rest' | 'gemini_sdk' | 'openai' | 'local';
+
+export interface GenerationRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  temperature: number;
+  maxOutputTokens?: number;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface GenerationResult {
+  text: string;
+  model: string;
+  // Null when the backend does not report usage (some local servers omit it)
+  usage: TokenUsage | null;
+}
+
+export interface ProviderConfig {
+  model: string;
+  baseUrl?: string;
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  readonly requiresApiKey: boolean;
+  generate(request: GenerationRequest, apiKey: string): Promise<GenerationResult>;
+  // Only implemented by providers that expose an exact token counting endpoint
+  countTokens?(request: GenerationRequest, apiKey: string): Promise<number>;
+  // False when the backend rejects the key; throws a ProviderError when the
+  // check itself failed (rate limit, server or network error)
+  validateApiKey(apiKey: string): Promise<boolean>;
+}
+
+/**
+ * Normalized failure categories shared by every provider, so callers never
+ * have to inspect provider-specific status codes or SDK error classes.
+ */
+export type ProviderErrorKind =
+  | 'auth'
+  | 'rate_limit'
+  | 'server'
+  | 'bad_request'
+  | 'safety'
+  | 'empty_response'
+  | 'network';
+
+const RETRYABLE_KINDS: ProviderErrorKind[] = ['rate_limit', 'server', 'network'];
+
+export class ProviderError extends Error {
+  readonly kind: ProviderErrorKind;
+  readonly provider: ProviderName;
+  readonly status?: number;
+  // How long the backend asked us to wait before trying again, when it said
+  readonly retryAfterMs?: number;
+
+  constructor(provider: ProviderName, kind: ProviderErrorKind, message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.provider = provider;
+    this.kind = kind;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get isRetryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+
+  /**
+   * Maps an HTTP status code to a normalized error kind.
+   */
+  static kindFromStatus(status: number): ProviderErrorKind {
+    if (status === 401 || status === 403) return 'auth';
+    if (status === 429) return 'rate_limit';
+    if (status >= 500) return 'server';
+    return 'bad_request';
+  }
+
+  static fromStatus(provider: ProviderName, status: number, message: string, retryAfterMs?: number): ProviderError {
+    return new ProviderError(provider, ProviderError.kindFromStatus(status), message, status, retryAfterMs);
+  }
+
+  /**
+   * Wraps anything thrown by fetch or an SDK that is not already a ProviderError.
+   */
+  static wrap(provider: ProviderName, error: unknown): ProviderError {
+    if (error instanceof ProviderError) return error;
+    if (error instanceof TypeError) {
+      return new ProviderError(provider, 'network', error.message);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return new ProviderError(provider, 'server', message);
+  }
+}
+
+/**
+ * Parses a Retry-After header, which holds either a number of seconds or an
+ * HTTP date.
+ * @returns {number | undefined} The delay in milliseconds, or undefined when
+ * the header is missing or malformed.
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Interprets the answer to a request made only to check an API key.
+ * @returns {Promise<boolean>} True for success, false when the key was rejected.
+ * @throws {ProviderError} For answers that say nothing about the key, such as a
+ * rate limit or a server error.
+ */
+export async function checkKeyResponse(provider: ProviderName, response: Response): Promise<boolean> {
+  if (response.ok) return true;
+  const body = await response.text().catch(() => '');
+  // Gemini reports a malformed or revoked key as a 400 rather than a 401
+  if (response.status === 401 || response.status === 403 || (response.status === 400 && body.includes('API key not valid'))) {
+    return false;
+  }
+  let details: unknown;
+  try {
+    details = JSON.parse(body).error?.details;
+  } catch {
+    // Not a Google error body
+  }
+  const retryAfterMs = parseRetryAfter(response.headers.get('retry-after')) ?? parseRetryInfo(details);
+  throw ProviderError.fromStatus(provider, response.status, `Key check failed with status ${response.status}`, retryAfterMs);
+}
+
+/**
+ * Reads the delay from the google.rpc.RetryInfo entry that Google APIs put
+ * in the details of a 429 error, e.g. { "retryDelay": "34s" }.
+ * @returns {number | undefined} The delay in milliseconds, if present.
+ */
+export function parseRetryInfo(details: unknown): number | undefined {
+  if (!Array.isArray(details)) return undefined;
+  for (const detail of details) {
+    const retryDelay = detail?.['@type']?.endsWith('google.rpc.RetryInfo') ? detail.retryDelay : undefined;
+    const seconds = typeof retryDelay === 'string' ? retryDelay.match(/^(\d+(?:\.\d+)?)s$/)?.[1] : undefined;
+    if (seconds) {
+      return Math.ceil(parseFloat(seconds) * 1000);
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,295 @@
+import { Context } from '@devvit/public-api';
+import { CONSTANTS } from '../config/constants.js';
+import { errorClassOf } from './deadLetter.js';
+
+type PartialContext = Partial<Context>;
+
+/**
+ * What happened to a post that the app tried to summarize.
+ */
+export type Outcome = 'summarized' | 'cached' | 'skipped' | 'failed';
+
+/**
+ * The timed steps of summarizing a post.
+ */
+export type MetricStage = 'fetch' | 'summarize' | 'comment';
+
+export interface DailyMetrics {
+    // UTC date, as YYYY-MM-DD
+    date: string;
+    enqueued: number;
+    outcomes: Record<Outcome, number>;
+    failuresByClass: Record<string, number>;
+    // Outcome counts keyed by the linked domain
+    domains: Record<string, Partial<Record<Outcome, number>>>;
+    tokensIn: number;
+    tokensOut: number;
+    // Average milliseconds per stage, over the runs that completed it
+    averageLatencyMs: Partial<Record<MetricStage, number>>;
+    // Requests each API key made, keyed by the key's label, as counted by its bucket
+    apiKeyRequests: Record<string, number>;
+}
+
+const OUTCOMES: Outcome[] = ['summarized', 'cached', 'skipped', 'failed'];
+const STAGES: MetricStage[] = ['fetch', 'summarize', 'comment'];
+
+function dayOf(timestamp: number): string {
+    return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function metricsKey(date: string): string {
+    return `metrics:${date}`;
+}
+
+function domainOf(url: string | null | undefined): string {
+    if (!url) return 'unknown';
+    try {
+        return new URL(url).hostname.replace(/^www\./, '').toLowerCase();
+    } catch {
+        return 'unknown';
+    }
+}
+
+/**
+ * Adds to counters in the metrics hash of a day, today by default, and keeps
+ * the hash for the retention window. Metrics are best effort: a failure is
+ * logged and never interrupts the work being measured.
+ */
+async function increment(context: PartialContext, counters: Record<string, number>, timestamp: number = Date.now()): Promise<void> {
+    try {
+        const key = metricsKey(dayOf(timestamp));
+        for (const [field, amount] of Object.entries(counters)) {
+            if (amount !== 0) await context.redis?.hIncrBy(key, field, Math.round(amount));
+        }
+        const retentionDays = (await context.settings?.get<number>('analytics_retention_days')) || CONSTANTS.DEFAULT_ANALYTICS_RETENTION_DAYS;
+        await context.redis?.expire(key, retentionDays * 86400);
+    } catch (error) {
+        console.warn('Failed to record metrics:', error);
+    }
+}
+
+export async function recordEnqueued(context: PartialContext): Promise<void> {
+    await increment(context, { enqueued: 1 });
+}
+
+/**
+ * Counts the outcome of processing a post, by domain and, for failures, by
+ * error class.
+ * @param {PartialContext} context - The application context.
+ * @param {Outcome} outcome - What happened to the post.
+ * @param {string | null} url - The link that was summarized, if known.
+ * @param {unknown} error - The error, for failed posts.
+ */
+export async function recordOutcome(context: PartialContext, outcome: Outcome, url: string | null, error?: unknown): Promise<void> {
+    const counters: Record<string, number> = {
+        [outcome]: 1,
+        [`domain:${domainOf(url)}:${outcome}`]: 1,
+    };
+    if (outcome === 'failed') {
+        counters[`error:${errorClassOf(error)}`] = 1;
+    }
+    await increment(context, counters);
+}
+
+export async function recordTokens(context: PartialContext, inputTokens: number, outputTokens: number): Promise<void> {
+    await increment(context, { tokens_in: inputTokens, tokens_out: outputTokens });
+}
+
+/**
+ * Stores the requests each API key made during a day, read from the key
+ * buckets before their daily counters are reset.
+ * @param {PartialContext} context - The application context.
+ * @param {Record<string, number>} requests - Requests by key label.
+ * @param {number} timestamp - A time during the day the counts belong to.
+ */
+export async function recordApiKeyRequests(context: PartialContext, requests: Record<string, number>, timestamp: number): Promise<void> {
+    const counters: Record<string, number> = {};
+    for (const [label, count] of Object.entries(requests)) {
+        counters[`api_key:${label}:requests`] = count;
+    }
+    await increment(context, counters, timestamp);
+}
+
+/**
+ * Runs one stage of processing a post and records how long it took. Only
+ * stages that complete are timed, so failures don't skew the averages.
+ */
+export async function timed<T>(context: PartialContext, stage: MetricStage, work: () => Promise<T>): Promise<T> {
+    const startedAt = Date.now();
+    const result = await work();
+    await increment(context, { [`latency:${stage}:total`]: Date.now() - startedAt, [`latency:${stage}:count`]: 1 });
+    return result;
+}
+
+function parseMetrics(date: string, fields: Record<string, string>): DailyMetrics {
+    const value = (field: string) => parseInt(fields[field] ?? '0', 10) || 0;
+    const metrics: DailyMetrics = {
+        date,
+        enqueued: value('enqueued'),
+        outcomes: { summarized: value('summarized'), cached: value('cached'), skipped: value('skipped'), failed: value('failed') },
+        failuresByClass: {},
+        domains: {},
+        tokensIn: value('tokens_in'),
+        tokensOut: value('tokens_out'),
+        averageLatencyMs: {},
+        apiKeyRequests: {},
+    };
+
+    for (const field of Object.keys(fields)) {
+        const error = field.match(/^error:(.+)$/);
+        if (error) {
+            metrics.failuresByClass[error[1]] = value(field);
+        }
+        const domain = field.match(/^domain:(.+):([a-z]+)$/);
+        if (domain && OUTCOMES.includes(domain[2] as Outcome)) {
+            metrics.domains[domain[1]] = { ...metrics.domains[domain[1]], [domain[2]]: value(field) };
+        }
+        const apiKey = field.match(/^api_key:(.+):requests$/);
+        if (apiKey) {
+            metrics.apiKeyRequests[apiKey[1]] = value(field);
+        }
+    }
+    for (const stage of STAGES) {
+        const count = value(`latency:${stage}:count`);
+        if (count > 0) {
+            metrics.averageLatencyMs[stage] = Math.round(value(`latency:${stage}:total`) / count);
+        }
+    }
+    return metrics;
+}
+
+/**
+ * Reads the metrics of the last few days, oldest first. Days without any
+ * recorded activity are included with zero counts.
+ * @param {PartialContext} context - The application context.
+ * @param {number} days - How many days to read, including today.
+ * @returns {Promise<DailyMetrics[]>}
+ */
+export async function getDailyMetrics(context: PartialContext, days: number): Promise<DailyMetrics[]> {
+    const metrics: DailyMetrics[] = [];
+    for (let offset = days - 1; offset >= 0; offset--) {
+        const date = dayOf(Date.now() - offset * 86400000);
+        const fields = (await context.redis?.hGetAll(metricsKey(date))) ?? {};
+        metrics.push(parseMetrics(date, fields));
+    }
+    return metrics;
+}
+
+function topDomains(metrics: DailyMetrics, limit: number): [string, number][] {
+    return Object.entries(metrics.domains)
+        .map(([domain, outcomes]): [string, number] => [domain, OUTCOMES.reduce((sum, outcome) => sum + (outcomes[outcome] ?? 0), 0)])
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, limit);
+}
+
+/**
+ * Renders one day's metrics as the markdown body of the modmail digest.
+ */
+export function formatDigest(metrics: DailyMetrics): string {
+    const lines = [
+        `Activity of the AI summaries app on ${metrics.date} (UTC):`,
+        '',
+        `- Posts queued: ${metrics.enqueued}`,
+        `- Summarized: ${metrics.outcomes.summarized}, reused from the cache: ${metrics.outcomes.cached}`,
+        `- Skipped: ${metrics.outcomes.skipped}`,
+        `- Failed: ${metrics.outcomes.failed}`,
+        `- Tokens: ${metrics.tokensIn} in, ${metrics.tokensOut} out`,
+    ];
+
+    const latencies = STAGES
+        .filter(stage => metrics.averageLatencyMs[stage] !== undefined)
+        .map(stage => `${stage} ${(metrics.averageLatencyMs[stage]! / 1000).toFixed(1)}s`);
+    if (latencies.length > 0) {
+        lines.push(`- Average time per step: ${latencies.join(', ')}`);
+    }
+
+    const failures = Object.entries(metrics.failuresByClass).sort((a, b) => b[1] - a[1]);
+    if (failures.length > 0) {
+        lines.push('', 'Failures by error:', '', ...failures.map(([errorClass, count]) => `- ${errorClass}: ${count}`));
+    }
+
+    const domains = topDomains(metrics, CONSTANTS.DIGEST_TOP_DOMAINS);
+    if (domains.length > 0) {
+        lines.push('', 'Most linked domains:', '', ...domains.map(([domain, count]) => `- ${domain}: ${count}`));
+    }
+
+    const apiKeys = Object.entries(metrics.apiKeyRequests);
+    if (apiKeys.length > 0) {
+        lines.push('', 'Requests per API key:', '', ...apiKeys.map(([label, count]) => `- ${label}: ${count}`));
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Sends yesterday's metrics to the subreddit's moderators as an internal
+ * modmail, unless the digest is turned off or there was no activity.
+ * @param {PartialContext} context - The application context.
+ */
+export async function sendDailyDigest(context: PartialContext): Promise<void> {
+    if ((await context.settings?.get<boolean>('daily_digest')) === false) {
+        console.debug('Daily digest is turned off.');
+        return;
+    }
+
+    const [yesterday] = await getDailyMetrics(context, 2);
+    const total = yesterday.enqueued + OUTCOMES.reduce((sum, outcome) => sum + yesterday.outcomes[outcome], 0);
+    if (total === 0) {
+        console.info(`No activity on ${yesterday.date}; not sending a digest.`);
+        return;
+    }
+
+    const subredditName = context.subredditName ?? (await context.reddit?.getCurrentSubreddit())?.name;
+    if (!subredditName) {
+        console.error('Unable to identify the subreddit for the daily digest.');
+        return;
+    }
+    await context.reddit?.modMail.createConversation({
+        subredditName,
+        subject: `AI summaries daily report for ${yesterday.date}`,
+        body: formatDigest(yesterday),
+        to: null,
+    });
+    console.info(`Sent the daily digest for ${yesterday.date} to the moderators of r/${subredditName}.`);
+}
+
+/**
+ * Serializes metrics for export. CSV is in long form, one row per day,
+ * metric and dimension (a domain, an error class or a stage), so that every
+ * breakdown fits in one table.
+ */
+export function exportMetrics(metrics: DailyMetrics[], format: 'csv' | 'json'): string {
+    if (format === 'json') {
+        return JSON.stringify(metrics, null, 2);
+    }
+
+    const rows = ['date,metric,dimension,value'];
+    const add = (date: string, metric: string, dimension: string, value: number) => {
+        rows.push([date, metric, csvField(dimension), value].join(','));
+    };
+    for (const day of metrics) {
+        add(day.date, 'enqueued', '', day.enqueued);
+        OUTCOMES.forEach(outcome => add(day.date, outcome, '', day.outcomes[outcome]));
+        add(day.date, 'tokens_in', '', day.tokensIn);
+        add(day.date, 'tokens_out', '', day.tokensOut);
+        for (const [errorClass, count] of Object.entries(day.failuresByClass)) {
+            add(day.date, 'failed_by_error', errorClass, count);
+        }
+        for (const [domain, outcomes] of Object.entries(day.domains)) {
+            OUTCOMES.forEach(outcome => {
+                if (outcomes[outcome]) add(day.date, `${outcome}_by_domain`, domain, outcomes[outcome]!);
+            });
+        }
+        for (const stage of STAGES) {
+            const latency = day.averageLatencyMs[stage];
+            if (latency !== undefined) add(day.date, 'avg_latency_ms', stage, latency);
+        }
+        for (const [label, count] of Object.entries(day.apiKeyRequests)) {
+            add(day.date, 'api_key_requests', label, count);
+        }
+    }
+    return rows.join('\n');
+}
+
+function csvField(value: string): string {
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
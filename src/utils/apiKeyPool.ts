@@ -0,0 +1,247 @@
+import { Context } from '@devvit/public-api';
+import { CONSTANTS } from '../config/constants.js';
+import { AuthError, DailyQuotaError, QuotaError } from './errors.js';
+import { recordApiKeyRequests } from './analytics.js';
+import { TokenBucket, tokenBucketInstance } from './tokenBucket.js';
+import {
+  apiKeyId,
+  checkAndUpdateApiKey,
+  getConfiguredApiKeys,
+  getRegisteredApiKeyIds,
+  invalidateApiKeyValidation,
+  unregisterApiKey,
+} from './apiUtils.js';
+
+type PartialContext = Partial<Context>;
+
+/**
+ * How the next key is picked: in turn, or the key with the fewest requests today.
+ */
+export type KeySelection = 'round_robin' | 'least_used';
+
+export interface PooledKey {
+  apiKey: string;
+  id: string;
+  bucket: TokenBucket;
+}
+
+interface Quarantine {
+  until: number;
+  reason: string;
+  // 'auth' for a rejected key, 'rate_limit' for a key the provider throttled
+  kind: 'auth' | 'rate_limit';
+}
+
+export interface ApiKeyHealth {
+  // The last characters of the key, read from the settings for display only
+  label: string;
+  id: string;
+  status: 'available' | 'quarantined' | 'exhausted';
+  quarantine: Quarantine | null;
+  requestsToday: number;
+  requestsPerDay: number;
+  requestsThisMinute: number;
+  tokensAvailable: number;
+  tokensToday: number;
+}
+
+const CURSOR_KEY = 'api_key_cursor';
+
+function quarantineKey(id: string): string {
+  return `api_key_quarantine:${id}`;
+}
+
+function pooledKey(apiKey: string): PooledKey {
+  const id = apiKeyId(apiKey);
+  return { apiKey, id, bucket: tokenBucketInstance.forKey(id) };
+}
+
+async function getQuarantine(context: PartialContext, id: string): Promise<Quarantine | null> {
+  const raw = await context.redis?.get(quarantineKey(id));
+  if (!raw) return null;
+  const quarantine = JSON.parse(raw) as Quarantine;
+  return quarantine.until > Date.now() ? quarantine : null;
+}
+
+/**
+ * Sets a key aside after the provider rejected or throttled it: for
+ * API_KEY_AUTH_COOLDOWN after a 401 or 403, and for as long as the provider
+ * asked (or API_KEY_RATE_LIMIT_COOLDOWN) after a 429.
+ * @param {PartialContext} context - The application context.
+ * @param {PooledKey} key - The key that failed.
+ * @param {unknown} error - The error of the failed call.
+ * @returns {Promise<boolean>} True when the error quarantined the key, so another key may be tried.
+ */
+export async function quarantineApiKey(context: PartialContext, key: PooledKey, error: unknown): Promise<boolean> {
+  let quarantine: Quarantine;
+  if (error instanceof AuthError) {
+    quarantine = { until: Date.now() + CONSTANTS.API_KEY_AUTH_COOLDOWN, reason: error.message, kind: 'auth' };
+    await invalidateApiKeyValidation(context, key.apiKey);
+  } else if (error instanceof QuotaError && !(error instanceof DailyQuotaError)) {
+    const cooldown = error.retryAfterMs ?? CONSTANTS.API_KEY_RATE_LIMIT_COOLDOWN;
+    quarantine = { until: Date.now() + cooldown, reason: error.message, kind: 'rate_limit' };
+  } else {
+    return false;
+  }
+
+  await context.redis?.set(quarantineKey(key.id), JSON.stringify(quarantine), { expiration: new Date(quarantine.until) });
+  console.warn(`Quarantined API key ${key.id} until ${new Date(quarantine.until).toISOString()}: ${quarantine.reason}`);
+  return true;
+}
+
+/**
+ * Orders the usable keys of the pool for the next model call, leaving out
+ * quarantined keys. A key that isn't in the pool, such as one a moderator
+ * typed into a form, is used on its own.
+ * @param {PartialContext} context - The application context.
+ * @param {string} apiKey - The key the caller was given.
+ * @throws {AuthError | QuotaError} When every key of the pool is quarantined.
+ * @returns {Promise<PooledKey[]>} The keys to try, in order.
+ */
+export async function selectApiKeys(context: PartialContext, apiKey: string): Promise<PooledKey[]> {
+  const configured = await getConfiguredApiKeys(context);
+  if (!configured.includes(apiKey)) {
+    return [pooledKey(apiKey)];
+  }
+
+  const available: PooledKey[] = [];
+  const quarantines: Quarantine[] = [];
+  for (const key of configured.map(pooledKey)) {
+    const quarantine = await getQuarantine(context, key.id);
+    if (quarantine) {
+      quarantines.push(quarantine);
+    } else {
+      available.push(key);
+    }
+  }
+
+  if (available.length === 0) {
+    const throttled = quarantines.filter(quarantine => quarantine.kind === 'rate_limit');
+    if (throttled.length > 0) {
+      const soonest = Math.min(...throttled.map(quarantine => quarantine.until));
+      throw new QuotaError('Every API key is rate limited', Math.max(soonest - Date.now(), 0));
+    }
+    throw new AuthError('Every API key was rejected by the provider');
+  }
+
+  const selection = (await context.settings?.get<string[]>('api_key_selection'))?.[0] as KeySelection | undefined;
+  if (selection === 'least_used') {
+    const requestsToday = new Map<string, number>();
+    for (const key of available) {
+      requestsToday.set(key.id, (await key.bucket.usage(context)).requestsToday);
+    }
+    return available.sort((a, b) => requestsToday.get(a.id)! - requestsToday.get(b.id)!);
+  }
+
+  const cursor = (await context.redis?.incrBy(CURSOR_KEY, 1)) ?? 0;
+  const start = cursor % available.length;
+  return [...available.slice(start), ...available.slice(0, start)];
+}
+
+/**
+ * Brings the pool in line with the settings: checks each configured key,
+ * gives keys new to the pool a fresh bucket, quarantines rejected keys, lifts
+ * the auth quarantine of keys accepted again and deletes the state of keys
+ * that were removed.
+ * @param {PartialContext} context - The application context.
+ * @returns {Promise<{ added: number; valid: string[]; invalid: string[] }>} How many keys
+ * were added, and the keys the provider accepted and rejected. Keys that couldn't be
+ * checked are in neither list.
+ */
+export async function syncApiKeyPool(context: PartialContext): Promise<{ added: number; valid: string[]; invalid: string[] }> {
+  const configured = await getConfiguredApiKeys(context);
+  const valid: string[] = [];
+  const invalid: string[] = [];
+  let added = 0;
+
+  for (const apiKey of configured) {
+    const key = pooledKey(apiKey);
+    const { changed, status } = await checkAndUpdateApiKey(context, apiKey);
+    if (status === 'invalid') {
+      invalid.push(apiKey);
+      if (!(await getQuarantine(context, key.id))) {
+        await quarantineApiKey(context, key, new AuthError('The provider rejected the key during validation'));
+      }
+      continue;
+    }
+    if (status !== 'valid') {
+      console.warn(`Could not check API key ${key.id} with the provider (${status}).`);
+      continue;
+    }
+    if (changed) {
+      console.info(`API key ${key.id} added to the pool.`);
+      await key.bucket.resetBucket(context);
+      await context.redis?.del(quarantineKey(key.id));
+      added++;
+    } else if ((await getQuarantine(context, key.id))?.kind === 'auth') {
+      // The provider accepts the key again, so it shouldn't wait out the auth cooldown
+      console.info(`API key ${key.id} passed validation. Lifting its quarantine.`);
+      await context.redis?.del(quarantineKey(key.id));
+    }
+    valid.push(apiKey);
+  }
+
+  const configuredIds = new Set(configured.map(apiKeyId));
+  for (const id of await getRegisteredApiKeyIds(context)) {
+    if (!configuredIds.has(id)) {
+      console.info(`API key ${id} was removed from the settings. Deleting its state.`);
+      await unregisterApiKey(context, id);
+      await tokenBucketInstance.forKey(id).clear(context);
+      await context.redis?.del(quarantineKey(id));
+    }
+  }
+
+  return { added, valid, invalid };
+}
+
+/**
+ * Starts a new day for the default bucket and the bucket of every key in the
+ * pool, zeroing their daily request and token counters. The requests each
+ * configured key made are stored in the day's metrics first, for the digest.
+ * Run at midnight UTC.
+ * @param {PartialContext} context - The application context.
+ */
+export async function resetDailyUsage(context: PartialContext): Promise<void> {
+  await tokenBucketInstance.checkAndUpdateLimits(context);
+
+  const requests: Record<string, number> = {};
+  for (const key of await getApiKeyHealth(context)) {
+    requests[key.label] = key.requestsToday;
+  }
+  // The job runs just after midnight, so the counts belong to the day before
+  await recordApiKeyRequests(context, requests, Date.now() - 86400000);
+
+  await tokenBucketInstance.resetDailyRequests(context);
+  const ids = new Set([...await getRegisteredApiKeyIds(context), ...(await getConfiguredApiKeys(context)).map(apiKeyId)]);
+  for (const id of ids) {
+    await tokenBucketInstance.forKey(id).resetDailyRequests(context);
+  }
+  console.info(`Reset the daily usage of ${ids.size} API keys.`);
+}
+
+/**
+ * Reports the state of every configured key for the dashboard.
+ * @param {PartialContext} context - The application context.
+ * @returns {Promise<ApiKeyHealth[]>}
+ */
+export async function getApiKeyHealth(context: PartialContext): Promise<ApiKeyHealth[]> {
+  const health: ApiKeyHealth[] = [];
+  for (const apiKey of await getConfiguredApiKeys(context)) {
+    const key = pooledKey(apiKey);
+    const quarantine = await getQuarantine(context, key.id);
+    const usage = await key.bucket.usage(context);
+    const exhausted = usage.requestsToday >= key.bucket.requestsPerDay;
+    health.push({
+      label: apiKey ? `…${apiKey.slice(-4)}` : '(no key)',
+      id: key.id,
+      status: quarantine ? 'quarantined' : exhausted ? 'exhausted' : 'available',
+      quarantine,
+      requestsToday: usage.requestsToday,
+      requestsPerDay: key.bucket.requestsPerDay,
+      requestsThisMinute: usage.requestsThisMinute,
+      tokensAvailable: usage.tokensAvailable,
+      tokensToday: usage.tokensToday,
+    });
+  }
+  return health;
+}
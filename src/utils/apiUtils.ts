@@ -1,61 +1,159 @@
 import { CONSTANTS } from '../config/constants.js';
 import { Context } from '@devvit/public-api';
 import { sha256 } from './hashUtils.js';
+import { getProvider } from '../providers/index.js';
+import { AuthError, QuotaError, toAppError } from './errors.js';
 
 type PartialContext = Partial<Context>;
 
 /**
- * Validates the API key by checking if the validation status is 'valid' in Redis.
- * If not, it fetches the API key from the settings and validates it.
+ * The outcome of checking a key with the provider. Only 'valid' and
+ * 'invalid' say anything about the key itself.
+ */
+export type ApiKeyStatus = 'valid' | 'invalid' | 'quota_exhausted' | 'unreachable';
+
+// Hashes of the keys in the pool, with the time each was added
+const API_KEY_POOL_KEY = 'api_key_pool';
+
+/**
+ * Identifies an API key in Redis without storing the key itself.
+ * @param {string} apiKey - The API key.
+ * @returns {string} A prefix of the key's SHA-256 hash.
+ */
+export function apiKeyId(apiKey: string): string {
+  return sha256(apiKey).slice(0, 16);
+}
+
+function validationKey(apiKey: string): string {
+  return `${CONSTANTS.API_KEY_VALIDATION_KEY}:${apiKeyId(apiKey)}`;
+}
+
+/**
+ * Validates the API key, using the result cached in Redis under the key's hash
+ * when there is one: 'valid' for API_KEY_VALIDATION_TTL and 'invalid' for the
+ * shorter API_KEY_INVALID_TTL. Otherwise the key is checked with the LLM
+ * provider selected in the settings.
  * @param {string} apiKey - The API key to validate.
  * @param {PartialContext} context - The application context.
- * @returns {Promise<boolean>} - Returns true if the API key is valid, false otherwise.
+ * @returns {Promise<boolean>} - Returns true if the API key is valid, false if the provider rejected it.
+ * @throws {TransientNetworkError | UpstreamServerError | QuotaError} When the
+ * provider couldn't be asked, since that says nothing about the key.
  */
 export async function validateApiKey(apiKey: string, context: PartialContext): Promise<boolean> {
-  const validationStatus = await context.redis?.get(CONSTANTS.API_KEY_VALIDATION_KEY);
-  if (validationStatus === 'valid') {
-    return true;
+  const validationStatus = await context.redis?.get(validationKey(apiKey));
+  if (validationStatus === 'valid' || validationStatus === 'invalid') {
+    return validationStatus === 'valid';
   }
 
+  let isValid: boolean;
   try {
-    const response = await fetch(`${CONSTANTS.GEMINI_API_TEST_ENDPOINT}?key=${apiKey}`);
-    const isValid = response.ok;
-    if (isValid) {
-      const expirationDate = new Date(Date.now() + CONSTANTS.API_KEY_VALIDATION_TTL * 1000);
-      await context.redis?.set(CONSTANTS.API_KEY_VALIDATION_KEY, 'valid', { expiration: expirationDate });
+    const provider = await getProvider(context);
+    isValid = await provider.validateApiKey(apiKey);
+  } catch (error) {
+    const typed = toAppError(error);
+    if (!(typed instanceof AuthError)) {
+      console.error('Error validating API key:', error);
+      throw typed;
     }
-    return isValid;
+    isValid = false;
+  }
+
+  const ttl = isValid ? CONSTANTS.API_KEY_VALIDATION_TTL : CONSTANTS.API_KEY_INVALID_TTL;
+  await context.redis?.set(validationKey(apiKey), isValid ? 'valid' : 'invalid', { expiration: new Date(Date.now() + ttl * 1000) });
+  return isValid;
+}
+
+/**
+ * Checks the API key like validateApiKey, telling apart a key the provider
+ * rejected from a check that failed because of quota or the network.
+ * @param {string} apiKey - The API key to check.
+ * @param {PartialContext} context - The application context.
+ * @returns {Promise<ApiKeyStatus>}
+ */
+export async function checkApiKey(apiKey: string, context: PartialContext): Promise<ApiKeyStatus> {
+  try {
+    return (await validateApiKey(apiKey, context)) ? 'valid' : 'invalid';
   } catch (error) {
-    console.error('Error validating API key:', error);
-    return false;
+    return error instanceof QuotaError ? 'quota_exhausted' : 'unreachable';
+  }
+}
+
+/**
+ * Reads the API keys from the app settings: the main key followed by the
+ * additional keys, without duplicates.
+ * @param {PartialContext} context - The application context.
+ * @returns {Promise<string[]>} - The keys; a single empty string for providers
+ * that don't need one, or no keys when a required key is missing.
+ */
+export async function getConfiguredApiKeys(context: PartialContext): Promise<string[]> {
+  const apiKey = ((await context.settings?.get('api_key')) as string | undefined)?.trim();
+  const additionalKeys = ((await context.settings?.get('additional_api_keys')) as string | undefined) ?? '';
+  const keys = [...new Set([apiKey ?? '', ...additionalKeys.split(/[\s,]+/)].filter(key => key !== ''))];
+  if (keys.length === 0) {
+    // Self-hosted providers can run without a key
+    const provider = await getProvider(context);
+    return provider.requiresApiKey ? [] : [''];
   }
+  return keys;
+}
+
+/**
+ * Reads the main API key from the app settings.
+ * @param {PartialContext} context - The application context.
+ * @returns {Promise<string | null>} - The key, an empty string for providers that
+ * don't need one, or null when a required key is missing.
+ */
+export async function getConfiguredApiKey(context: PartialContext): Promise<string | null> {
+  const [apiKey] = await getConfiguredApiKeys(context);
+  return apiKey ?? null;
+}
+
+/**
+ * Lists the hashes of the keys registered in the pool.
+ * @param {PartialContext} context - The application context.
+ * @returns {Promise<string[]>}
+ */
+export async function getRegisteredApiKeyIds(context: PartialContext): Promise<string[]> {
+  return Object.keys((await context.redis?.hGetAll(API_KEY_POOL_KEY)) ?? {});
 }
 
-export async function checkAndUpdateApiKey(context: PartialContext): Promise<{ changed: boolean; valid: boolean }> {
-  const apiKey = await context.settings?.get('api_key') as string;
-  const storedHash = await context.redis?.get('api_key_hash');
-  
-  if (!apiKey) return { changed: false, valid: false };
-
-  const newHash = sha256(apiKey);
-  const changed = newHash !== storedHash;
-  
-  const isValid = await validateApiKey(apiKey, context);
-  
-  if (changed && isValid) {
-    await context.redis?.set('api_key_hash', newHash);
-    const expirationDate = new Date(Date.now() + CONSTANTS.API_KEY_VALIDATION_TTL * 1000);
-    await context.redis?.set(CONSTANTS.API_KEY_VALIDATION_KEY, 'valid', { expiration: expirationDate });
+/**
+ * Checks one key and registers it in the pool the first time it is seen
+ * valid. Only the key's hash is stored.
+ * @param {PartialContext} context - The application context.
+ * @param {string} apiKey - The API key.
+ * @returns {Promise<{ changed: boolean; status: ApiKeyStatus }>} changed is true for a key new to the pool.
+ */
+export async function checkAndUpdateApiKey(context: PartialContext, apiKey: string): Promise<{ changed: boolean; status: ApiKeyStatus }> {
+  const id = apiKeyId(apiKey);
+  const changed = !(await context.redis?.hGet(API_KEY_POOL_KEY, id));
+
+  const status = await checkApiKey(apiKey, context);
+
+  if (changed && status === 'valid') {
+    await context.redis?.hSet(API_KEY_POOL_KEY, { [id]: Date.now().toString() });
   }
-  
-  return { changed, valid: isValid };
+
+  return { changed, status };
+}
+
+/**
+ * Removes a key from the pool by its hash.
+ * @param {PartialContext} context - The application context.
+ * @param {string} id - The key's hash.
+ */
+export async function unregisterApiKey(context: PartialContext, id: string): Promise<void> {
+  await context.redis?.hDel(API_KEY_POOL_KEY, [id]);
+  await context.redis?.del(`${CONSTANTS.API_KEY_VALIDATION_KEY}:${id}`);
 }
 
 /**
- * Invalidates the API key validation status in Redis.
+ * Forgets the cached validation result of one API key, valid or not, so it
+ * is checked with the provider again.
  * @param {PartialContext} context - The application context.
+ * @param {string} apiKey - The API key.
  * @returns {Promise<void>} - Returns nothing.
  */
-export async function invalidateApiKeyValidation(context: PartialContext): Promise<void> {
-  await context.redis?.del(CONSTANTS.API_KEY_VALIDATION_KEY);
+export async function invalidateApiKeyValidation(context: PartialContext, apiKey: string): Promise<void> {
+  await context.redis?.del(validationKey(apiKey));
 }
\ No newline at end of file
@@ -0,0 +1,97 @@
+/**
+ * Normalizes article URLs so that reposts of the same article with different
+ * tracking parameters, AMP variants or hostname spellings share one cache key.
+ */
+
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS = new Set([
+    'fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'twclid', 'igshid', 'mc_cid', 'mc_eid',
+    '_ga', '_gl', 'ref_src', 'ref_url', 'cmpid', 'ncid', 'ocid', 'smid', 'si', 'amp',
+]);
+const TRACKING_PREFIXES = ['utm_', 'hsa_', 'pk_', 'mtm_'];
+
+// Hostname prefixes that serve the same article as the bare domain
+const HOST_ALIAS_PATTERN = /^(www|m|mobile|amp)\./i;
+
+function isTrackingParam(name: string): boolean {
+    const lower = name.toLowerCase();
+    return TRACKING_PARAMS.has(lower) || TRACKING_PREFIXES.some(prefix => lower.startsWith(prefix));
+}
+
+/**
+ * Unwraps Google AMP cache links such as
+ * https://www.google.com/amp/s/example.com/story and
+ * https://example-com.cdn.ampproject.org/c/s/example.com/story
+ * to the publisher's URL.
+ */
+function unwrapAmpCache(url: URL): URL {
+    const match = url.hostname.endsWith('.cdn.ampproject.org')
+        ? url.pathname.match(/^\/[a-z]+(?:\/(s))?\/(.+)$/i)
+        : /(^|\.)google\.[a-z.]+$/i.test(url.hostname)
+            ? url.pathname.match(/^\/amp(?:\/(s))?\/(.+)$/i)
+            : null;
+    if (!match) return url;
+    try {
+        return new URL(`${match[1] ? 'https' : 'http'}://${match[2]}${url.search}`);
+    } catch {
+        return url;
+    }
+}
+
+/**
+ * Returns the canonical form of an article URL: https, lowercase host without
+ * www/m/amp prefixes, no AMP path segments, tracking parameters or fragment,
+ * the remaining query parameters sorted, and no trailing slash.
+ * @param {string} url - The URL to normalize.
+ * @returns {string} The canonical URL, or the input unchanged when it can't be parsed.
+ */
+export function canonicalizeUrl(url: string): string {
+    let parsed: URL;
+    try {
+        parsed = unwrapAmpCache(new URL(url));
+    } catch {
+        return url;
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        return url;
+    }
+
+    const host = parsed.hostname.toLowerCase().replace(HOST_ALIAS_PATTERN, '');
+    const path = parsed.pathname
+        .replace(/\/amp(\.html)?\/?$/i, '/')
+        .replace(/\.amp(\.html?)$/i, '$1')
+        .replace(/\/+$/, '') || '/';
+
+    const params: [string, string][] = [];
+    parsed.searchParams.forEach((value, name) => {
+        if (!isTrackingParam(name)) params.push([name, value]);
+    });
+    params.sort(([a], [b]) => a.localeCompare(b));
+    const query = new URLSearchParams(params).toString();
+
+    const port = parsed.port ? `:${parsed.port}` : '';
+    return `https://${host}${port}${path}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Resolves the rel=canonical link of a fetched page. A page can only name a
+ * canonical URL on its own site, so that a hostile page can't claim to be an
+ * article elsewhere and have its summary reused for that article.
+ * @param {string | undefined} href - The href of the page's canonical link.
+ * @param {string} pageUrl - The URL the page was fetched from.
+ * @returns {string | null} The absolute canonical URL, or null when missing or on another site.
+ */
+export function resolveCanonicalLink(href: string | undefined, pageUrl: string): string | null {
+    if (!href || href.trim() === '') return null;
+    try {
+        const canonical = new URL(href.trim(), pageUrl);
+        const page = new URL(pageUrl);
+        const site = (hostname: string) => hostname.toLowerCase().replace(HOST_ALIAS_PATTERN, '');
+        if (!/^https?:$/.test(canonical.protocol) || site(canonical.hostname) !== site(page.hostname)) {
+            return null;
+        }
+        return canonical.href;
+    } catch {
+        return null;
+    }
+}
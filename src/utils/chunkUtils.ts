@@ -0,0 +1,88 @@
+import { estimateTokenCount } from './tokenEstimator.js';
+
+const PARAGRAPH_SEPARATOR = /\n\s*\n/;
+// Split after sentence-ending punctuation (including CJK full stops) followed by whitespace or not
+const SENTENCE_BOUNDARY = /(?<=[.!?。！？])\s+|(?<=[。！？])/u;
+
+/**
+ * Splits a piece of text that is too large on its own into pieces under the
+ * budget, trying sentence boundaries first and falling back to a hard cut.
+ */
+function splitOversized(text: string, maxTokens: number): string[] {
+  const sentences = text.split(SENTENCE_BOUNDARY).filter(sentence => sentence.trim() !== '');
+  if (sentences.length > 1) {
+    return packPieces(sentences, maxTokens, ' ');
+  }
+
+  // A single run-on "sentence": cut it into roughly equal slices by token density
+  const pieces: string[] = [];
+  const tokens = estimateTokenCount(text);
+  const sliceLength = Math.max(1, Math.floor(text.length * (maxTokens / tokens)));
+  for (let start = 0; start < text.length; start += sliceLength) {
+    pieces.push(text.slice(start, start + sliceLength));
+  }
+  return pieces;
+}
+
+/**
+ * Greedily packs pieces into chunks that stay under the token budget.
+ */
+function packPieces(pieces: string[], maxTokens: number, separator: string): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  let currentTokens = 0;
+
+  for (const piece of pieces) {
+    const pieceTokens = estimateTokenCount(piece);
+    if (pieceTokens > maxTokens) {
+      if (current) {
+        chunks.push(current);
+        current = '';
+        currentTokens = 0;
+      }
+      chunks.push(...splitOversized(piece, maxTokens));
+      continue;
+    }
+
+    if (current && currentTokens + pieceTokens > maxTokens) {
+      chunks.push(current);
+      current = '';
+      currentTokens = 0;
+    }
+    current = current ? `${current}${separator}${piece}` : piece;
+    currentTokens += pieceTokens;
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/**
+ * Splits content into chunks under a token budget, preferring paragraph
+ * boundaries, then sentence boundaries.
+ * @param {string} content - The text to split.
+ * @param {number} maxTokensPerChunk - The token budget for each chunk.
+ * @returns {string[]}
+ */
+export function splitIntoChunks(content: string, maxTokensPerChunk: number): string[] {
+  const paragraphs = content
+    .split(PARAGRAPH_SEPARATOR)
+    .map(paragraph => paragraph.trim())
+    .filter(paragraph => paragraph !== '');
+  return packPieces(paragraphs, maxTokensPerChunk, '\n\n');
+}
+
+/**
+ * Truncates content to a token budget on a paragraph or sentence boundary.
+ * @param {string} content - The text to truncate.
+ * @param {number} maxTokens - The token budget.
+ * @returns {string}
+ */
+export function truncateToTokens(content: string, maxTokens: number): string {
+  if (estimateTokenCount(content) <= maxTokens) {
+    return content;
+  }
+  return splitIntoChunks(content, maxTokens)[0] ?? '';
+}
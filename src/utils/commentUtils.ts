@@ -0,0 +1,117 @@
+import { Comment, Context } from '@devvit/public-api';
+import { RedditApiError, RetryPolicy, callRedditApi } from './errors.js';
+
+type PartialContext = Partial<Context>;
+
+/**
+ * Thrown when a comment was posted but could not be distinguished, so callers
+ * can tell that failure apart from a failed submission. Not retried: the next
+ * run would find the recorded comment and stop there.
+ */
+export class DistinguishError extends RedditApiError {
+    override readonly retryPolicy: RetryPolicy = 'drop';
+    readonly commentId: string;
+
+    constructor(commentId: string, cause: unknown) {
+        super(`distinguish comment ${commentId}`, cause);
+        this.name = 'DistinguishError';
+        this.commentId = commentId;
+    }
+}
+
+/**
+ * Redis key holding the ID of the link summary comment on a post.
+ */
+export function summaryCommentKey(postId: string): string {
+    return `summary_comment:${postId}`;
+}
+
+/**
+ * Redis key holding the ID of the discussion summary comment on a post.
+ */
+export function discussionCommentKey(postId: string): string {
+    return `discussion_comment:${postId}`;
+}
+
+function isDeleted(comment: Comment): boolean {
+    return comment.removed ||
+           comment.authorName === '[deleted]' ||
+           comment.body === '[deleted]' ||
+           comment.body === '[removed]';
+}
+
+/**
+ * Loads the bot comment whose ID is stored under the given Redis key. The
+ * record is cleared when the comment has since been deleted or removed, so
+ * callers can post a new one.
+ * @param {PartialContext} context - The application context.
+ * @param {string} recordKey - Redis key holding the comment ID.
+ * @returns {Promise<Comment | null>}
+ */
+export async function getRecordedComment(context: PartialContext, recordKey: string): Promise<Comment | null> {
+    const commentId = await context.redis?.get(recordKey);
+    if (!commentId) {
+        return null;
+    }
+
+    const comment = await callRedditApi(`load comment ${commentId}`, async () => context.reddit?.getCommentById(commentId));
+    if (!comment || isDeleted(comment)) {
+        console.info(`Recorded comment ${commentId} no longer exists. Clearing ${recordKey}.`);
+        await context.redis?.del(recordKey);
+        return null;
+    }
+    return comment;
+}
+
+/**
+ * Edits the bot comment recorded under the given key, or submits and
+ * distinguishes a new one and records its ID.
+ * @param {PartialContext} context - The application context.
+ * @param {string} recordKey - Redis key holding the comment ID.
+ * @param {string} postId - The post to comment on.
+ * @param {string} text - The comment body.
+ * @param {boolean} sticky - Whether a new comment should be stickied.
+ * @returns {Promise<'created' | 'updated'>}
+ */
+export async function upsertBotComment(
+    context: PartialContext,
+    recordKey: string,
+    postId: string,
+    text: string,
+    sticky: boolean
+): Promise<'created' | 'updated'> {
+    const existing = await getRecordedComment(context, recordKey);
+    if (existing) {
+        await callRedditApi(`edit comment ${existing.id}`, () => existing.edit({ text }));
+        console.debug(`Edited comment ${existing.id} on post ${postId}`);
+        return 'updated';
+    }
+
+    const comment = await callRedditApi(`submit comment on post ${postId}`, async () => context.reddit?.submitComment({ id: postId, text }));
+    if (!comment) {
+        throw new RedditApiError(`submit comment on post ${postId}`, 'no comment was returned');
+    }
+    await context.redis?.set(recordKey, comment.id);
+    try {
+        await comment.distinguish(sticky);
+    } catch (error) {
+        throw new DistinguishError(comment.id, error);
+    }
+    console.debug(`Submitted comment ${comment.id} on post ${postId}`);
+    return 'created';
+}
+
+/**
+ * Forgets a deleted bot comment so the next run posts a new one.
+ * @param {PartialContext} context - The application context.
+ * @param {string} postId - The post the comment was on.
+ * @param {string} commentId - The deleted comment.
+ */
+export async function clearCommentRecord(context: PartialContext, postId: string, commentId: string): Promise<void> {
+    for (const key of [summaryCommentKey(postId), discussionCommentKey(postId)]) {
+        if ((await context.redis?.get(key)) === commentId) {
+            console.info(`Bot comment ${commentId} was deleted. Clearing ${key}.`);
+            await context.redis?.del(key);
+        }
+    }
+}
@@ -0,0 +1,241 @@
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import type { Element } from 'domhandler';
+import { CONSTANTS } from '../config/constants.js';
+
+/**
+ * Readability-style main content extraction on top of an already loaded
+ * cheerio document: boilerplate is stripped, paragraph containers are scored
+ * by text and link density, and the winning subtree is serialized with its
+ * paragraph and heading structure intact.
+ */
+
+export interface ArticleMetadata {
+  author: string | null;
+  publishedAt: string | null;
+  siteName: string | null;
+}
+
+// Elements that never contain article text
+const BOILERPLATE_TAGS = 'script, style, noscript, template, iframe, svg, canvas, form, button, input, select, textarea, nav, aside, footer, header, menu, dialog';
+
+// Containers that are almost always chrome around the article
+const BOILERPLATE_SELECTORS = '[role="navigation"], [role="banner"], [role="contentinfo"], [role="complementary"], [role="dialog"], [aria-hidden="true"], [hidden]';
+
+const NEGATIVE_PATTERN = /comment|cookie|consent|banner|footer|footnote|masthead|menu|nav|sidebar|sponsor|share|social|related|recommend|promo|advert|\bads?\b|subscribe|newsletter|popup|modal|breadcrumb|pagination|outbrain|taboola|widget/i;
+// Always boilerplate, even when combined with a positive class like "comment-body"
+const STRONG_NEGATIVE_PATTERN = /comment|cookie|consent|newsletter|outbrain|taboola/i;
+const POSITIVE_PATTERN = /article|body|content|entry|main|post|story|text|blog/i;
+
+const SCORABLE_TAGS = 'p, pre, td, blockquote, li';
+const BLOCK_TAGS = 'h1, h2, h3, h4, h5, h6, p, pre, blockquote, li, figcaption';
+
+interface Candidate {
+  node: Cheerio<Element>;
+  score: number;
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function classWeight(node: Cheerio<Element>): number {
+  const signature = `${node.attr('class') ?? ''} ${node.attr('id') ?? ''}`;
+  let weight = 0;
+  if (NEGATIVE_PATTERN.test(signature)) weight -= 25;
+  if (POSITIVE_PATTERN.test(signature)) weight += 25;
+  return weight;
+}
+
+function linkDensity($: CheerioAPI, node: Cheerio<Element>): number {
+  const textLength = normalizeWhitespace(node.text()).length;
+  if (textLength === 0) return 0;
+  let linkLength = 0;
+  node.find('a').each((_, link) => {
+    linkLength += normalizeWhitespace($(link).text()).length;
+  });
+  return linkLength / textLength;
+}
+
+function removeBoilerplate($: CheerioAPI): void {
+  $(BOILERPLATE_TAGS).remove();
+  $(BOILERPLATE_SELECTORS).remove();
+  $('body *').each((_, element) => {
+    const node = $(element);
+    // Never strip the obvious article containers, even if a class name matches
+    if (node.is('article, main, body')) return;
+    const signature = `${node.attr('class') ?? ''} ${node.attr('id') ?? ''}`;
+    if (STRONG_NEGATIVE_PATTERN.test(signature) || (NEGATIVE_PATTERN.test(signature) && !POSITIVE_PATTERN.test(signature))) {
+      node.remove();
+    }
+  });
+}
+
+function findBestCandidate($: CheerioAPI): Cheerio<Element> | null {
+  const candidates = new Map<unknown, Candidate>();
+  const addScore = (node: Cheerio<Element>, score: number) => {
+    const key = node.get(0);
+    if (!key) return;
+    const existing = candidates.get(key);
+    if (existing) {
+      existing.score += score;
+    } else {
+      candidates.set(key, { node, score: score + classWeight(node) });
+    }
+  };
+
+  $(SCORABLE_TAGS).each((_, element) => {
+    const text = normalizeWhitespace($(element).text());
+    if (text.length < 25) return;
+
+    // One point per paragraph, one per comma, and up to three for length
+    const score = 1 + (text.match(/[,，、]/g)?.length ?? 0) + Math.min(Math.floor(text.length / 100), 3);
+    const parent = $(element).parent();
+    addScore(parent, score);
+    addScore(parent.parent(), score / 2);
+  });
+
+  let best: Candidate | null = null;
+  for (const candidate of candidates.values()) {
+    const adjusted = candidate.score * (1 - linkDensity($, candidate.node));
+    if (!best || adjusted > best.score) {
+      best = { node: candidate.node, score: adjusted };
+    }
+  }
+  return best?.node ?? null;
+}
+
+/**
+ * Serializes a subtree as plain text, one block per paragraph, with headings
+ * marked up as markdown and list items as bullets.
+ */
+function serializeBlocks($: CheerioAPI, root: Cheerio<Element>): string {
+  const blocks: string[] = [];
+  root.find(BLOCK_TAGS).each((_, element) => {
+    const node = $(element);
+    // Nested blocks (e.g. <p> inside <li>) are emitted by their outermost block
+    if (node.parentsUntil(root, BLOCK_TAGS).length > 0) return;
+
+    const text = normalizeWhitespace(node.text());
+    if (!text) return;
+
+    const tagName = (node.prop('tagName') ?? '').toLowerCase();
+    const heading = tagName.match(/^h([1-6])$/);
+    if (heading) {
+      blocks.push(`${'#'.repeat(Number(heading[1]))} ${text}`);
+    } else if (tagName === 'li') {
+      blocks.push(`- ${text}`);
+    } else if (tagName === 'blockquote') {
+      blocks.push(`> ${text}`);
+    } else {
+      blocks.push(text);
+    }
+  });
+
+  // Some sites put text directly in <div>s; fall back to the raw text
+  const serialized = blocks.join('\n\n');
+  return serialized.length >= CONSTANTS.MIN_CANDIDATE_CONTENT_LENGTH ? serialized : normalizeWhitespace(root.text());
+}
+
+/**
+ * Extracts the main content of the page with paragraph and heading structure preserved.
+ * Mutates the document by removing boilerplate, so extract metadata first.
+ * @param {CheerioAPI} $ - The loaded document.
+ * @returns {string}
+ */
+export function extractMainContent($: CheerioAPI): string {
+  removeBoilerplate($);
+
+  const candidate = findBestCandidate($);
+  if (candidate) {
+    const content = serializeBlocks($, candidate);
+    if (content.length >= CONSTANTS.MIN_CANDIDATE_CONTENT_LENGTH) {
+      console.debug(`Extracted content from best-scoring <${(candidate.prop('tagName') ?? '').toLowerCase()}> candidate.`);
+      return content;
+    }
+  }
+
+  // Fallback to common article containers, then the whole body
+  for (const selector of ['article', 'main', '[itemprop="articleBody"]']) {
+    const node = $<Element, string>(selector).first();
+    if (node.length > 0) {
+      const content = serializeBlocks($, node);
+      if (content) {
+        console.debug(`Extracted content from ${selector} selector.`);
+        return content;
+      }
+    }
+  }
+
+  console.debug('Extracted content from <body> tag as fallback.');
+  return serializeBlocks($, $('body'));
+}
+
+function firstString(value: unknown): string | null {
+  if (typeof value === 'string') return value.trim() || null;
+  if (Array.isArray(value)) {
+    const names = value.map(firstString).filter((name): name is string => Boolean(name));
+    return names.length > 0 ? names.join(', ') : null;
+  }
+  if (value && typeof value === 'object' && 'name' in value) {
+    return firstString((value as { name: unknown }).name);
+  }
+  return null;
+}
+
+function collectJsonLdObjects(value: unknown, found: Record<string, unknown>[]): void {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectJsonLdObjects(item, found));
+  } else if (value && typeof value === 'object') {
+    const object = value as Record<string, unknown>;
+    found.push(object);
+    if (object['@graph']) {
+      collectJsonLdObjects(object['@graph'], found);
+    }
+  }
+}
+
+function readJsonLd($: CheerioAPI): Record<string, unknown> | null {
+  const objects: Record<string, unknown>[] = [];
+  $('script[type="application/ld+json"]').each((_, element) => {
+    try {
+      collectJsonLdObjects(JSON.parse($(element).text()), objects);
+    } catch {
+      // Malformed JSON-LD is common; ignore it
+    }
+  });
+
+  const isArticle = (object: Record<string, unknown>) => {
+    const types = ([] as unknown[]).concat(object['@type'] ?? []);
+    return types.some(type => typeof type === 'string' && /Article|BlogPosting|Report|NewsArticle/.test(type));
+  };
+  return objects.find(isArticle) ?? null;
+}
+
+/**
+ * Extracts author, publish date and site name from JSON-LD, OpenGraph and common meta tags.
+ * @param {CheerioAPI} $ - The loaded document.
+ * @returns {ArticleMetadata}
+ */
+export function extractMetadata($: CheerioAPI): ArticleMetadata {
+  const jsonLd = readJsonLd($);
+  const meta = (selector: string) => $(selector).attr('content')?.trim() || null;
+
+  return {
+    author:
+      firstString(jsonLd?.author) ||
+      meta('meta[property="article:author"]') ||
+      meta('meta[name="author"]') ||
+      meta('meta[name="parsely-author"]'),
+    publishedAt:
+      firstString(jsonLd?.datePublished) ||
+      meta('meta[property="article:published_time"]') ||
+      meta('meta[name="date"]') ||
+      meta('meta[itemprop="datePublished"]') ||
+      $('time[datetime]').first().attr('datetime') ||
+      null,
+    siteName:
+      meta('meta[property="og:site_name"]') ||
+      firstString(jsonLd?.publisher) ||
+      meta('meta[name="application-name"]'),
+  };
+}
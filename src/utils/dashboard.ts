@@ -0,0 +1,177 @@
+import { Context } from '@devvit/public-api';
+import { CONSTANTS } from '../config/constants.js';
+import { tokenBucketInstance } from './tokenBucket.js';
+import { ApiKeyHealth, getApiKeyHealth } from './apiKeyPool.js';
+import { countDeadLetters } from './deadLetter.js';
+import { POST_QUEUE_KEY, QueueLane, enqueuePost, removeFromQueue, getQueueLanes } from './postQueue.js';
+
+type PartialContext = Partial<Context>;
+
+const RECENT_ERRORS_KEY = 'recent_errors';
+
+export interface QueuedPostStatus {
+    postId: string;
+    title: string;
+    lane: QueueLane;
+    dueAt: number;
+    retries: number;
+}
+
+export interface RecentError {
+    postId: string;
+    message: string;
+    at: number;
+}
+
+export interface DashboardStatus {
+    queueDepth: number;
+    dueNow: number;
+    nextDue: QueuedPostStatus[];
+    requestsToday: number;
+    requestsPerDay: number;
+    requestsThisMinute: number;
+    requestsPerMinute: number;
+    tokensAvailable: number;
+    tokensPerMinute: number;
+    tokensToday: number;
+    authError: boolean;
+    apiKeys: ApiKeyHealth[];
+    deadLetters: number;
+    recentErrors: RecentError[];
+}
+
+export type QueueAction = 'retry' | 'drop' | 'prioritize';
+
+/**
+ * Keeps the last few processing errors for the dashboard. Stored as a sorted
+ * set scored by time, trimmed to DASHBOARD_RECENT_ERRORS entries.
+ * @param {PartialContext} context - The application context.
+ * @param {string} postId - The post being processed.
+ * @param {unknown} error - The error that occurred.
+ */
+export async function recordRecentError(context: PartialContext, postId: string, error: unknown): Promise<void> {
+    const at = Date.now();
+    const message = error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+    const entry: RecentError = { postId, message: message.slice(0, 300), at };
+    await context.redis?.zAdd(RECENT_ERRORS_KEY, { member: JSON.stringify(entry), score: at });
+    await context.redis?.zRemRangeByRank(RECENT_ERRORS_KEY, 0, -(CONSTANTS.DASHBOARD_RECENT_ERRORS + 1));
+}
+
+async function getRecentErrors(context: PartialContext): Promise<RecentError[]> {
+    const entries = (await context.redis?.zRange(RECENT_ERRORS_KEY, 0, -1, { by: 'rank', reverse: true })) ?? [];
+    return entries.map(({ member }) => JSON.parse(member) as RecentError);
+}
+
+/**
+ * Collects the queue, usage and error state shown on the moderator dashboard.
+ * @param {PartialContext} context - The application context.
+ * @returns {Promise<DashboardStatus>}
+ */
+export async function getDashboardStatus(context: PartialContext): Promise<DashboardStatus> {
+    await tokenBucketInstance.checkAndUpdateLimits(context);
+
+    const now = Date.now();
+    const queueDepth = (await context.redis?.zCard(POST_QUEUE_KEY)) ?? 0;
+    const dueNow = (await context.redis?.zRange(POST_QUEUE_KEY, 0, now, { by: 'score' }))?.length ?? 0;
+    const queued = (await context.redis?.zRange(POST_QUEUE_KEY, 0, CONSTANTS.DASHBOARD_QUEUED_POSTS - 1, { by: 'rank' })) ?? [];
+    const lanes = await getQueueLanes(context, queued.map(({ member }) => member));
+
+    const nextDue: QueuedPostStatus[] = [];
+    for (const { member: postId, score } of queued) {
+        const retries = parseInt(await context.redis?.hGet(`retry:${postId}`, 'count') || '0', 10);
+        let title = '';
+        try {
+            title = (await context.reddit?.getPostById(postId))?.title ?? '';
+        } catch (error) {
+            console.warn(`Could not load post ${postId} for the dashboard:`, error);
+        }
+        nextDue.push({ postId, title, lane: lanes.get(postId) ?? 'normal', dueAt: score, retries });
+    }
+
+    // Usage is summed over the keys, each of which has the configured limits
+    const apiKeys = await getApiKeyHealth(context);
+    const sum = (count: (key: ApiKeyHealth) => number) => apiKeys.reduce((total, key) => total + count(key), 0);
+
+    return {
+        queueDepth,
+        dueNow,
+        nextDue,
+        requestsToday: sum(key => key.requestsToday),
+        requestsPerDay: tokenBucketInstance.requestsPerDay * apiKeys.length,
+        requestsThisMinute: sum(key => key.requestsThisMinute),
+        requestsPerMinute: tokenBucketInstance.requestsPerMinute * apiKeys.length,
+        tokensAvailable: sum(key => key.tokensAvailable),
+        tokensPerMinute: tokenBucketInstance.tokensPerMinute * apiKeys.length,
+        tokensToday: sum(key => key.tokensToday),
+        authError: Boolean(await context.redis?.get('gemini_auth_error')),
+        apiKeys,
+        deadLetters: await countDeadLetters(context),
+        recentErrors: await getRecentErrors(context),
+    };
+}
+
+function formatRelative(timestamp: number, now: number): string {
+    const minutes = Math.round((timestamp - now) / 60000);
+    if (minutes === 0) return 'now';
+    return minutes > 0 ? `in ${minutes} min` : `${-minutes} min ago`;
+}
+
+/**
+ * Renders the dashboard status as plain text for read-only form fields.
+ */
+export function formatDashboardStatus(status: DashboardStatus): { overview: string; queue: string; errors: string; keys: string } {
+    const now = Date.now();
+    const overview = [
+        `Queue: ${status.queueDepth} posts, ${status.dueNow} due now`,
+        `Requests today: ${status.requestsToday} / ${status.requestsPerDay}`,
+        `Requests in the last minute: ${status.requestsThisMinute} / ${status.requestsPerMinute}`,
+        `Tokens used today: ${status.tokensToday}`,
+        `Tokens available this minute: ${status.tokensAvailable} / ${status.tokensPerMinute}`,
+        `Provider authentication: ${status.authError ? 'FAILING - check the API keys' : 'OK'}`,
+        `Failed posts (dead letters): ${status.deadLetters}`,
+    ].join('\n');
+
+    const queue = status.nextDue.length === 0
+        ? 'The queue is empty.'
+        : status.nextDue
+            .map(post => `${post.postId} - ${post.lane}, due ${formatRelative(post.dueAt, now)}, ${post.retries} retries - ${post.title || '(title unavailable)'}`)
+            .join('\n');
+
+    const errors = status.recentErrors.length === 0
+        ? 'No recent errors.'
+        : status.recentErrors
+            .map(error => `${new Date(error.at).toISOString()} ${error.postId}: ${error.message}`)
+            .join('\n');
+
+    const keys = status.apiKeys.length === 0
+        ? 'No API key is configured.'
+        : status.apiKeys.map(key => {
+            const state = key.quarantine
+                ? `set aside until ${new Date(key.quarantine.until).toISOString()} (${key.quarantine.reason})`
+                : key.status === 'exhausted' ? 'daily limit reached' : 'available';
+            return `${key.label} - ${state}, ${key.requestsToday} / ${key.requestsPerDay} requests today, ` +
+                `${key.requestsThisMinute} in the last minute, ${key.tokensToday} tokens today`;
+        }).join('\n');
+
+    return { overview, queue, errors, keys };
+}
+
+/**
+ * Applies a moderator action to a queued post: retry it now with a fresh
+ * retry count, drop it, or move it to the moderator lane so it is picked
+ * first. Retrying also uses the moderator lane.
+ * @param {PartialContext} context - The application context.
+ * @param {string} postId - The queued post.
+ * @param {QueueAction} action - What to do with it.
+ */
+export async function applyQueueAction(context: PartialContext, postId: string, action: QueueAction): Promise<void> {
+    console.info(`Dashboard action ${action} on post ID ${postId}`);
+    if (action === 'drop') {
+        await removeFromQueue(context, postId);
+    } else if (action === 'retry') {
+        await context.redis?.del(`retry:${postId}`);
+        await enqueuePost(context, postId, 'moderator');
+    } else {
+        await enqueuePost(context, postId, 'moderator');
+    }
+}
@@ -0,0 +1,184 @@
+import { Context } from '@devvit/public-api';
+import { CONSTANTS } from '../config/constants.js';
+import { enqueuePost } from './postQueue.js';
+
+type PartialContext = Partial<Context>;
+
+/**
+ * The step of processing a post that failed.
+ */
+export type FailureStage = 'fetch' | 'summarize' | 'comment' | 'distinguish';
+
+export interface FailureDetails {
+    stage: FailureStage;
+    url: string | null;
+}
+
+export interface DeadLetter {
+    postId: string;
+    errorClass: string;
+    message: string;
+    stage: FailureStage;
+    url: string;
+    attempts: number[];
+    failedAt: number;
+}
+
+const DEAD_LETTERS_KEY = 'dead_letters';
+
+function deadLetterKey(postId: string): string {
+    return `dead_letter:${postId}`;
+}
+
+/**
+ * Names the kind of error for grouping.
+ */
+export function errorClassOf(error: unknown): string {
+    return error instanceof Error ? error.name : 'Unknown';
+}
+
+/**
+ * Notes the time of a processing attempt, kept alongside the retry count.
+ * @param {PartialContext} context - The application context.
+ * @param {string} postId - The post being processed.
+ */
+export async function recordAttempt(context: PartialContext, postId: string): Promise<void> {
+    const previous = await context.redis?.hGet(`retry:${postId}`, 'attempts');
+    const attempts = previous ? `${previous},${Date.now()}` : `${Date.now()}`;
+    await context.redis?.hSet(`retry:${postId}`, { attempts });
+}
+
+/**
+ * Returns when processing of a post was first attempted, for the maximum
+ * retry age. Falls back to now when no attempt has been recorded.
+ */
+export async function getFirstAttemptAt(context: PartialContext, postId: string): Promise<number> {
+    const attempts = await context.redis?.hGet(`retry:${postId}`, 'attempts');
+    const first = attempts ? Number(attempts.split(',')[0]) : NaN;
+    return isNaN(first) ? Date.now() : first;
+}
+
+async function getRetentionSeconds(context: PartialContext): Promise<number> {
+    const days = (await context.settings?.get<number>('dead_letter_retention_days')) || CONSTANTS.DEFAULT_DEAD_LETTER_RETENTION_DAYS;
+    return days * 86400;
+}
+
+async function pruneExpired(context: PartialContext): Promise<void> {
+    const cutoff = Date.now() - (await getRetentionSeconds(context)) * 1000;
+    await context.redis?.zRemRangeByScore(DEAD_LETTERS_KEY, 0, cutoff);
+}
+
+/**
+ * Records a post that was dropped from the queue after failing, so
+ * moderators can see why and requeue it. Call before the retry hash is
+ * deleted, since the attempt timestamps are read from it.
+ * @param {PartialContext} context - The application context.
+ * @param {string} postId - The failed post.
+ * @param {unknown} error - The final error.
+ * @param {FailureDetails} failure - Where processing failed and the URL involved.
+ */
+export async function addDeadLetter(
+    context: PartialContext,
+    postId: string,
+    error: unknown,
+    failure: FailureDetails
+): Promise<void> {
+    const failedAt = Date.now();
+    const errorClass = errorClassOf(error);
+    const message = error instanceof Error ? error.message : String(error);
+    const attempts = (await context.redis?.hGet(`retry:${postId}`, 'attempts')) ?? '';
+
+    const key = deadLetterKey(postId);
+    await context.redis?.hSet(key, {
+        errorClass,
+        message: message.slice(0, 500),
+        stage: failure.stage,
+        url: failure.url ?? '',
+        attempts,
+        failedAt: failedAt.toString(),
+    });
+    await context.redis?.expire(key, await getRetentionSeconds(context));
+    await context.redis?.zAdd(DEAD_LETTERS_KEY, { member: postId, score: failedAt });
+    await pruneExpired(context);
+    console.warn(`Post ID ${postId} moved to the dead-letter store (${errorClass} during ${failure.stage}).`);
+}
+
+/**
+ * Lists the dead-letter entries that haven't expired, newest first.
+ * @param {PartialContext} context - The application context.
+ * @returns {Promise<DeadLetter[]>}
+ */
+export async function listDeadLetters(context: PartialContext): Promise<DeadLetter[]> {
+    await pruneExpired(context);
+    const members = (await context.redis?.zRange(DEAD_LETTERS_KEY, 0, -1, { by: 'rank', reverse: true })) ?? [];
+
+    const entries: DeadLetter[] = [];
+    for (const { member: postId } of members) {
+        const record = await context.redis?.hGetAll(deadLetterKey(postId));
+        if (!record || Object.keys(record).length === 0) {
+            // The hash expired before the index entry was pruned
+            await context.redis?.zRem(DEAD_LETTERS_KEY, [postId]);
+            continue;
+        }
+        entries.push({
+            postId,
+            errorClass: record.errorClass,
+            message: record.message,
+            stage: record.stage as FailureStage,
+            url: record.url,
+            attempts: record.attempts ? record.attempts.split(',').map(Number) : [],
+            failedAt: Number(record.failedAt),
+        });
+    }
+    return entries;
+}
+
+/**
+ * Renders dead-letter entries as plain text for a read-only form field.
+ */
+export function formatDeadLetters(entries: DeadLetter[]): string {
+    if (entries.length === 0) {
+        return 'No failed posts.';
+    }
+    return entries
+        .map(entry => [
+            `${entry.postId} - ${entry.errorClass} during ${entry.stage}, ${new Date(entry.failedAt).toISOString()}`,
+            `  ${entry.message}`,
+            `  URL: ${entry.url || 'unknown'}; attempts: ${entry.attempts.map(at => new Date(at).toISOString()).join(', ') || 'none recorded'}`,
+        ].join('\n'))
+        .join('\n');
+}
+
+/**
+ * Puts dead-letter entries back on the queue, in the moderator lane, with a
+ * fresh retry count.
+ * @param {PartialContext} context - The application context.
+ * @param {{ postId?: string; errorClass?: string }} selector - One post, or every entry of an error class.
+ * @returns {Promise<number>} The number of posts requeued.
+ */
+export async function requeueDeadLetters(
+    context: PartialContext,
+    selector: { postId?: string; errorClass?: string }
+): Promise<number> {
+    const entries = (await listDeadLetters(context)).filter(entry =>
+        (selector.postId !== undefined && entry.postId === selector.postId) ||
+        (selector.errorClass !== undefined && entry.errorClass === selector.errorClass)
+    );
+
+    const now = Date.now();
+    for (const entry of entries) {
+        await context.redis?.del(`retry:${entry.postId}`);
+        await enqueuePost(context, entry.postId, 'moderator', now);
+        await context.redis?.del(deadLetterKey(entry.postId));
+        await context.redis?.zRem(DEAD_LETTERS_KEY, [entry.postId]);
+        console.info(`Requeued dead-letter post ID ${entry.postId}`);
+    }
+    return entries.length;
+}
+
+/**
+ * Counts the dead-letter entries, for the dashboard.
+ */
+export async function countDeadLetters(context: PartialContext): Promise<number> {
+    return (await context.redis?.zCard(DEAD_LETTERS_KEY)) ?? 0;
+}
@@ -0,0 +1,203 @@
+import { Comment, Context, Post } from '@devvit/public-api';
+import { CONSTANTS } from '../config/constants.js';
+import { summarizeDiscussion } from './summaryUtils.js';
+import { upsertBotComment, discussionCommentKey } from './commentUtils.js';
+import { getConfiguredApiKey } from './apiUtils.js';
+import { retryPolicyOf } from './errors.js';
+
+type PartialContext = Partial<Context>;
+
+interface RankedComment {
+    score: number;
+    body: string;
+    isReply: boolean;
+}
+
+export interface DiscussionUpdateResult {
+    status: 'created' | 'updated' | 'skipped';
+    reason?: string;
+}
+
+const DISCUSSION_QUEUE_KEY = 'discussion_queue';
+
+// Authors whose comments are boilerplate rather than discussion
+const IGNORED_AUTHORS = new Set(['[deleted]', 'AutoModerator']);
+
+function isUsable(comment: Comment, appUsername: string): boolean {
+    return !comment.removed &&
+           !comment.spam &&
+           comment.authorName !== appUsername &&
+           !IGNORED_AUTHORS.has(comment.authorName) &&
+           comment.body.trim() !== '' &&
+           comment.body !== '[deleted]' &&
+           comment.body !== '[removed]';
+}
+
+/**
+ * Walks the comment tree of a post down to DISCUSSION_MAX_DEPTH and returns
+ * the usable comments, highest scored first.
+ */
+async function collectComments(postId: string, context: PartialContext, appUsername: string): Promise<RankedComment[]> {
+    const collected: RankedComment[] = [];
+    let scanned = 0;
+
+    const visit = async (comments: Comment[], depth: number): Promise<void> => {
+        for (const comment of comments) {
+            if (scanned >= CONSTANTS.DISCUSSION_MAX_COMMENTS_SCANNED) return;
+            scanned++;
+
+            if (isUsable(comment, appUsername)) {
+                collected.push({
+                    score: comment.score,
+                    body: comment.body.replace(/\s+/g, ' ').trim().slice(0, CONSTANTS.DISCUSSION_COMMENT_MAX_LENGTH),
+                    isReply: depth > 0,
+                });
+            }
+
+            if (depth < CONSTANTS.DISCUSSION_MAX_DEPTH) {
+                await visit(await comment.replies.all(), depth + 1);
+            }
+        }
+    };
+
+    const topLevel = await context.reddit?.getComments({
+        postId,
+        sort: 'top',
+        depth: CONSTANTS.DISCUSSION_MAX_DEPTH,
+        limit: CONSTANTS.DISCUSSION_MAX_COMMENTS_SCANNED,
+    }).all() ?? [];
+    await visit(topLevel, 0);
+    console.debug(`Scanned ${scanned} comments on post ${postId}, ${collected.length} usable.`);
+
+    return collected.sort((a, b) => b.score - a.score);
+}
+
+function formatComments(comments: RankedComment[]): string {
+    return comments
+        .map(comment => `[score ${comment.score}]${comment.isReply ? ' (reply)' : ''}: ${comment.body}`)
+        .join('\n');
+}
+
+function linkedUrl(post: Post): string {
+    // Text posts link to their own permalink, which says nothing about the topic
+    return post.url && !post.url.includes(post.permalink) ? post.url : '';
+}
+
+/**
+ * Summarizes the discussion on a post and posts the digest as a distinguished
+ * comment, separate from the link summary. Later runs edit that comment in
+ * place instead of posting another one.
+ * @param {string} postId - The post whose comments to summarize.
+ * @param {PartialContext} context - The application context.
+ * @param {string} apiKey - The provider API key.
+ * @returns {Promise<DiscussionUpdateResult>}
+ */
+export async function updateDiscussionSummary(
+    postId: string,
+    context: PartialContext,
+    apiKey: string
+): Promise<DiscussionUpdateResult> {
+    const post = await context.reddit?.getPostById(postId);
+    if (!post) {
+        return { status: 'skipped', reason: 'post not found' };
+    }
+
+    const appUser = await context.reddit?.getAppUser();
+    const comments = await collectComments(postId, context, appUser?.username ?? '');
+    if (comments.length < CONSTANTS.DISCUSSION_MIN_COMMENTS) {
+        return { status: 'skipped', reason: `fewer than ${CONSTANTS.DISCUSSION_MIN_COMMENTS} comments to summarize` };
+    }
+
+    const top = comments.slice(0, CONSTANTS.DISCUSSION_TOP_COMMENTS);
+    const digest = await summarizeDiscussion(formatComments(top), context, apiKey, {
+        url: linkedUrl(post),
+        post_title: post.title,
+        subreddit: post.subredditName,
+    });
+
+    const text = `${digest}\n\n*Based on the top ${top.length} of ${comments.length} comments. Last updated ${new Date().toUTCString()}.*\n\n${CONSTANTS.BOT_FOOTER}`;
+    const status = await upsertBotComment(context, discussionCommentKey(postId), postId, text, false);
+
+    await context.redis?.hSet(`discussion:${postId}`, {
+        commentCount: post.numberOfComments.toString(),
+        updatedAt: Date.now().toString(),
+    });
+    console.info(`Discussion summary ${status} for post ID ${postId}`);
+    return { status };
+}
+
+async function getUpdateIntervalMs(context: PartialContext): Promise<number> {
+    const hours = (await context.settings?.get<number>('discussion_summary_interval_hours')) ?? 0;
+    return hours > 0 ? hours * 3600000 : 0;
+}
+
+/**
+ * Enrolls a post for scheduled discussion summary updates, if they are enabled.
+ * @returns {Promise<boolean>} Whether the post was scheduled.
+ */
+export async function scheduleDiscussionUpdates(postId: string, context: PartialContext): Promise<boolean> {
+    const interval = await getUpdateIntervalMs(context);
+    if (!interval) {
+        return false;
+    }
+    await context.redis?.zAdd(DISCUSSION_QUEUE_KEY, { member: postId, score: Date.now() + interval });
+    return true;
+}
+
+async function stopTracking(postId: string, context: PartialContext): Promise<void> {
+    await context.redis?.zRem(DISCUSSION_QUEUE_KEY, [postId]);
+    await context.redis?.del(`discussion:${postId}`);
+}
+
+/**
+ * Refreshes the discussion summaries that are due. Threads that haven't
+ * gained DISCUSSION_MIN_NEW_COMMENTS since the last update are rescheduled
+ * without calling the model, and posts older than DISCUSSION_TRACKING_TTL
+ * are dropped.
+ * @param {PartialContext} context - The application context.
+ */
+export async function processDiscussionQueue(context: PartialContext): Promise<void> {
+    const interval = await getUpdateIntervalMs(context);
+    if (!interval) {
+        return;
+    }
+
+    if (await context.redis?.get('gemini_auth_error')) {
+        console.warn('Skipping discussion summary updates: provider authentication is failing.');
+        return;
+    }
+
+    const apiKey = await getConfiguredApiKey(context);
+    if (apiKey === null) {
+        console.warn('API key is missing. Cannot update discussion summaries.');
+        return;
+    }
+
+    const now = Date.now();
+    const due = (await context.redis?.zRange(DISCUSSION_QUEUE_KEY, 0, now, { by: 'score' })) ?? [];
+    for (const { member: postId } of due.slice(0, CONSTANTS.DISCUSSION_UPDATES_PER_RUN)) {
+        try {
+            const post = await context.reddit?.getPostById(postId);
+            if (!post || now - post.createdAt.getTime() > CONSTANTS.DISCUSSION_TRACKING_TTL * 1000) {
+                console.debug(`Stopping discussion summary updates for post ID ${postId}`);
+                await stopTracking(postId, context);
+                continue;
+            }
+
+            const lastCount = parseInt(await context.redis?.hGet(`discussion:${postId}`, 'commentCount') || '0', 10);
+            if (post.numberOfComments - lastCount >= CONSTANTS.DISCUSSION_MIN_NEW_COMMENTS) {
+                await updateDiscussionSummary(postId, context, apiKey);
+            } else {
+                console.debug(`Post ID ${postId} has too few new comments for a discussion update.`);
+            }
+            await context.redis?.zAdd(DISCUSSION_QUEUE_KEY, { member: postId, score: now + interval });
+        } catch (error) {
+            console.error(`Error updating discussion summary for post ${postId}:`, error);
+            await context.redis?.zAdd(DISCUSSION_QUEUE_KEY, { member: postId, score: now + interval });
+            // A rejected key or the daily limit would fail every remaining update too
+            if (retryPolicyOf(error) === 'halt') {
+                break;
+            }
+        }
+    }
+}
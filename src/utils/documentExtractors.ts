@@ -0,0 +1,183 @@
+import { extractPdfText } from './pdfExtractor.js';
+import { UnsupportedContentError } from './errors.js';
+
+/**
+ * Content-type sniffing and extractors for the non-HTML documents we can
+ * summarize. Every extractor returns the same { title, content } shape as the
+ * HTML path.
+ */
+
+export type DocumentKind = 'html' | 'pdf' | 'text' | 'markdown' | 'json';
+
+export interface ExtractedDocument {
+  title: string;
+  content: string;
+}
+
+const UNSUPPORTED_EXTENSIONS: Record<string, string> = {
+  jpg: 'image', jpeg: 'image', png: 'image', gif: 'image', gifv: 'image', webp: 'image', svg: 'image', bmp: 'image', tiff: 'image', heic: 'image', avif: 'image',
+  mp4: 'video', webm: 'video', mov: 'video', mkv: 'video', avi: 'video', m3u8: 'video',
+  mp3: 'audio', wav: 'audio', ogg: 'audio', flac: 'audio', m4a: 'audio',
+  zip: 'archive', rar: 'archive', '7z': 'archive', tar: 'archive', gz: 'archive', tgz: 'archive', bz2: 'archive', xz: 'archive',
+  exe: 'executable', dmg: 'executable', apk: 'executable', msi: 'executable', iso: 'disk image',
+};
+
+const UNSUPPORTED_MIME_PREFIXES: [string, string][] = [
+  ['image/', 'image'],
+  ['video/', 'video'],
+  ['audio/', 'audio'],
+  ['font/', 'font'],
+  ['application/zip', 'archive'],
+  ['application/x-tar', 'archive'],
+  ['application/gzip', 'archive'],
+  ['application/x-gzip', 'archive'],
+  ['application/x-7z-compressed', 'archive'],
+  ['application/x-rar', 'archive'],
+  ['application/vnd.rar', 'archive'],
+  ['application/x-bzip2', 'archive'],
+  ['application/vnd.apple.mpegurl', 'video'],
+  ['application/x-msdownload', 'executable'],
+];
+
+function extensionOf(url: string): string {
+  try {
+    const path = new URL(url).pathname.toLowerCase();
+    const match = path.match(/\.([a-z0-9]+)$/);
+    return match ? match[1] : '';
+  } catch {
+    return '';
+  }
+}
+
+function fileNameOf(url: string): string {
+  try {
+    const segments = new URL(url).pathname.split('/').filter(Boolean);
+    return decodeURIComponent(segments[segments.length - 1] ?? '') || url;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Rejects URLs whose extension already tells us they can't be summarized,
+ * before anything is downloaded.
+ * @param {string} url - The link to check.
+ */
+export function assertSupportedUrl(url: string): void {
+  const kind = UNSUPPORTED_EXTENSIONS[extensionOf(url)];
+  if (kind) {
+    throw new UnsupportedContentError(`${kind} file (.${extensionOf(url)})`);
+  }
+}
+
+/**
+ * Decides how to extract a response, from its Content-Type header, the first
+ * bytes of the body and the URL extension, in that order of trust.
+ * @param {string} contentType - The Content-Type header, possibly empty.
+ * @param {Uint8Array} bytes - The response body.
+ * @param {string} url - The URL that was fetched.
+ * @returns {DocumentKind}
+ */
+export function classifyDocument(contentType: string, bytes: Uint8Array, url: string): DocumentKind {
+  const mime = contentType.split(';')[0].trim().toLowerCase();
+
+  for (const [prefix, kind] of UNSUPPORTED_MIME_PREFIXES) {
+    if (mime.startsWith(prefix)) {
+      throw new UnsupportedContentError(`${kind} content (${mime})`);
+    }
+  }
+
+  // Magic numbers beat headers: servers often label PDFs as octet-stream
+  const head = new TextDecoder('latin1').decode(bytes.subarray(0, 1024));
+  if (head.startsWith('%PDF-')) return 'pdf';
+  if (mime === 'application/pdf') return 'pdf';
+  if (mime === 'text/html' || mime === 'application/xhtml+xml') return 'html';
+  if (mime === 'text/markdown' || mime === 'text/x-markdown') return 'markdown';
+  if (mime === 'application/json' || mime.endsWith('+json')) return 'json';
+
+  const extension = extensionOf(url);
+  if (mime === 'text/plain' || mime === '' || mime === 'application/octet-stream') {
+    if (extension === 'md' || extension === 'markdown') return 'markdown';
+    if (extension === 'json') return 'json';
+    if (/^\s*</.test(head) && /<html|<!doctype html|<head|<body/i.test(head)) return 'html';
+    if (mime === 'text/plain' || extension === 'txt') return 'text';
+    // Binary data with no recognizable signature
+    if (/[\x00-\x08\x0e-\x1f]/.test(head)) {
+      throw new UnsupportedContentError(`unrecognized binary content${mime ? ` (${mime})` : ''}`);
+    }
+    return 'html';
+  }
+
+  if (mime === 'text/xml' || mime === 'application/xml' || mime.endsWith('+xml')) return 'html';
+  // Other text, such as CSV or CSS, has no markup for the HTML extractor to read
+  if (mime.startsWith('text/')) return 'text';
+
+  throw new UnsupportedContentError(`unsupported content type (${mime})`);
+}
+
+/**
+ * Extracts text from a PDF's text layer.
+ */
+export function extractPdfDocument(bytes: Uint8Array, url: string): ExtractedDocument {
+  const { title, content } = extractPdfText(bytes);
+  if (content.replace(/\s/g, '').length < 50) {
+    throw new UnsupportedContentError('PDF has no extractable text layer (it may be scanned images)');
+  }
+  return { title: title || fileNameOf(url), content };
+}
+
+/**
+ * Plain text: the first short line doubles as the title.
+ */
+export function extractTextDocument(text: string, url: string): ExtractedDocument {
+  const content = text.replace(/\r\n?/g, '\n').replace(/[^\S\n]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+  const firstLine = content.split('\n').find(line => line.trim() !== '')?.trim() ?? '';
+  return {
+    title: firstLine && firstLine.length <= 200 ? firstLine : fileNameOf(url),
+    content,
+  };
+}
+
+/**
+ * Markdown: keeps headings and lists, drops images, link targets and HTML comments.
+ */
+export function extractMarkdownDocument(text: string, url: string): ExtractedDocument {
+  const content = text
+    .replace(/\r\n?/g, '\n')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  const heading = content.match(/^#{1,2}\s+(.+)$/m)?.[1]?.trim();
+  return {
+    title: heading || extractTextDocument(content, url).title,
+    content,
+  };
+}
+
+/**
+ * JSON: pretty-printed so the model can read the structure, with the title
+ * taken from a conventional top-level field if there is one.
+ */
+export function extractJsonDocument(text: string, url: string): ExtractedDocument {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    // Mislabelled JSON is still readable as text
+    return extractTextDocument(text, url);
+  }
+
+  let title = '';
+  if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+    const record = parsed as Record<string, unknown>;
+    const candidate = ['title', 'headline', 'name', 'subject'].map(key => record[key]).find(value => typeof value === 'string');
+    title = (candidate as string | undefined) ?? '';
+  }
+
+  return {
+    title: title || fileNameOf(url),
+    content: JSON.stringify(parsed, null, 2),
+  };
+}
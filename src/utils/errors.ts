@@ -0,0 +1,275 @@
+import { ProviderError } from '../providers/index.js';
+
+/**
+ * What the queue does with a post after an error:
+ * - 'retry': requeue it for later, since the cause is likely to pass
+ * - 'drop': give up on it, since another attempt would fail the same way
+ * - 'halt': leave it queued and stop processing until the cause is fixed
+ */
+export type RetryPolicy = 'retry' | 'drop' | 'halt';
+
+/**
+ * Base class for the failures the app knows how to handle. Each subclass
+ * declares its retry policy, so callers never have to parse messages.
+ */
+export abstract class AppError extends Error {
+    abstract readonly retryPolicy: RetryPolicy;
+    // How long the server asked us to wait (Retry-After), when it said
+    readonly retryAfterMs?: number;
+
+    constructor(message: string, retryAfterMs?: number) {
+        super(message);
+        this.name = 'AppError';
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+/**
+ * The LLM provider rejected the API key.
+ */
+export class AuthError extends AppError {
+    override readonly retryPolicy: RetryPolicy = 'halt';
+
+    constructor(message: string) {
+        super(message);
+        this.name = 'AuthError';
+    }
+}
+
+/**
+ * A per-minute limit was hit, either in our token bucket or at the provider.
+ */
+export class QuotaError extends AppError {
+    override readonly retryPolicy: RetryPolicy = 'retry';
+
+    constructor(message: string, retryAfterMs?: number) {
+        super(message, retryAfterMs);
+        this.name = 'QuotaError';
+    }
+}
+
+/**
+ * The daily request limit was reached. Nothing more can be summarized until
+ * the counter resets.
+ */
+export class DailyQuotaError extends QuotaError {
+    override readonly retryPolicy: RetryPolicy = 'halt';
+
+    constructor(message: string = 'Daily request limit reached') {
+        super(message);
+        this.name = 'DailyQuotaError';
+    }
+}
+
+/**
+ * A request failed before getting a usable answer: a refused connection, a
+ * timeout, or a site asking us to slow down.
+ */
+export class TransientNetworkError extends AppError {
+    override readonly retryPolicy: RetryPolicy = 'retry';
+    readonly status?: number;
+
+    constructor(message: string, status?: number, retryAfterMs?: number) {
+        super(message, retryAfterMs);
+        this.name = 'TransientNetworkError';
+        this.status = status;
+    }
+}
+
+/**
+ * A linked site or the LLM provider answered with a 5xx status.
+ */
+export class UpstreamServerError extends AppError {
+    override readonly retryPolicy: RetryPolicy = 'retry';
+    readonly status?: number;
+
+    constructor(message: string, status?: number, retryAfterMs?: number) {
+        super(message, retryAfterMs);
+        this.name = 'UpstreamServerError';
+        this.status = status;
+    }
+}
+
+/**
+ * A linked site or the LLM provider refused the request itself (404, 410,
+ * a malformed request, ...).
+ */
+export class UpstreamClientError extends AppError {
+    override readonly retryPolicy: RetryPolicy = 'drop';
+    readonly status?: number;
+
+    constructor(message: string, status?: number) {
+        super(message);
+        this.name = 'UpstreamClientError';
+        this.status = status;
+    }
+}
+
+/**
+ * The page was fetched but had too little text to summarize, which usually
+ * means a paywall or a page rendered by JavaScript.
+ */
+export class ContentTooShortError extends AppError {
+    override readonly retryPolicy: RetryPolicy = 'drop';
+    readonly length: number;
+
+    constructor(length: number) {
+        super(`Extracted content is only ${length} characters`);
+        this.name = 'ContentTooShortError';
+        this.length = length;
+    }
+}
+
+/**
+ * Thrown for links we deliberately don't summarize (images, video, archives, ...).
+ */
+export class UnsupportedContentError extends AppError {
+    override readonly retryPolicy: RetryPolicy = 'drop';
+    readonly reason: string;
+
+    constructor(reason: string) {
+        super(`UnsupportedContent: ${reason}`);
+        this.name = 'UnsupportedContentError';
+        this.reason = reason;
+    }
+}
+
+/**
+ * The provider's safety filters blocked the prompt or the response.
+ */
+export class SafetyBlockedError extends AppError {
+    override readonly retryPolicy: RetryPolicy = 'drop';
+
+    constructor(message: string) {
+        super(message);
+        this.name = 'SafetyBlockedError';
+    }
+}
+
+/**
+ * The provider answered without any summary text. Models do this now and
+ * then, so another attempt usually succeeds.
+ */
+export class EmptyResponseError extends AppError {
+    override readonly retryPolicy: RetryPolicy = 'retry';
+
+    constructor(message: string) {
+        super(message);
+        this.name = 'EmptyResponseError';
+    }
+}
+
+/**
+ * The provider's answer couldn't be made into a usable comment: after
+ * formatting it was only markup, or it left a code block open. Another
+ * attempt usually does better.
+ */
+export class MalformedOutputError extends AppError {
+    override readonly retryPolicy: RetryPolicy = 'retry';
+
+    constructor(message: string) {
+        super(message);
+        this.name = 'MalformedOutputError';
+    }
+}
+
+/**
+ * A call to the Reddit API failed.
+ */
+export class RedditApiError extends AppError {
+    override readonly retryPolicy: RetryPolicy = 'retry';
+
+    constructor(action: string, cause: unknown) {
+        super(`Reddit API call failed (${action}): ${cause instanceof Error ? cause.message : String(cause)}`);
+        this.name = 'RedditApiError';
+    }
+}
+
+/**
+ * Another run holds the lease or claim needed for this work. It will be free
+ * again once that run finishes or its lease expires.
+ */
+export class LeaseUnavailableError extends AppError {
+    override readonly retryPolicy: RetryPolicy = 'retry';
+    readonly leaseName: string;
+
+    constructor(leaseName: string) {
+        super(`Lease ${leaseName} is held by another run`);
+        this.name = 'LeaseUnavailableError';
+        this.leaseName = leaseName;
+    }
+}
+
+/**
+ * A setting the work depends on is missing. Retrying won't help until a
+ * moderator fills it in.
+ */
+export class ConfigurationError extends AppError {
+    override readonly retryPolicy: RetryPolicy = 'drop';
+    readonly setting: string;
+
+    constructor(setting: string, message: string) {
+        super(message);
+        this.name = 'ConfigurationError';
+        this.setting = setting;
+    }
+}
+
+/**
+ * Picks the error class for an HTTP error status from a linked site.
+ */
+export function httpStatusError(status: number, message: string, retryAfterMs?: number): AppError {
+    if (status >= 500) return new UpstreamServerError(message, status, retryAfterMs);
+    if (status === 408 || status === 425 || status === 429) return new TransientNetworkError(message, status, retryAfterMs);
+    return new UpstreamClientError(message, status);
+}
+
+/**
+ * Converts provider errors, fetch failures and anything else thrown into the
+ * app's error classes. Errors that are already typed are returned as is, and
+ * unknown errors are left alone so they keep their stack and message.
+ */
+export function toAppError(error: unknown): unknown {
+    if (error instanceof AppError) return error;
+    if (error instanceof ProviderError) {
+        const message = `${error.provider}: ${error.message}`;
+        switch (error.kind) {
+            case 'auth': return new AuthError(message);
+            case 'rate_limit': return new QuotaError(message, error.retryAfterMs);
+            case 'server': return new UpstreamServerError(message, error.status, error.retryAfterMs);
+            case 'network': return new TransientNetworkError(message, error.status, error.retryAfterMs);
+            case 'safety': return new SafetyBlockedError(message);
+            case 'empty_response': return new EmptyResponseError(message);
+            case 'bad_request': return new UpstreamClientError(message, error.status);
+        }
+    }
+    if (error instanceof TypeError) {
+        // fetch rejects with a TypeError when the connection fails
+        return new TransientNetworkError(error.message);
+    }
+    return error;
+}
+
+/**
+ * Looks up the retry policy for anything thrown. Errors outside the hierarchy
+ * are unexpected, so the post is dropped rather than retried forever.
+ */
+export function retryPolicyOf(error: unknown): RetryPolicy {
+    const typed = toAppError(error);
+    return typed instanceof AppError ? typed.retryPolicy : 'drop';
+}
+
+/**
+ * Runs a Reddit API call, wrapping any failure in a RedditApiError.
+ * @param {string} action - What the call does, for the error message.
+ * @param {() => Promise<T>} call - The API call.
+ * @returns {Promise<T>}
+ */
+export async function callRedditApi<T>(action: string, call: () => Promise<T>): Promise<T> {
+    try {
+        return await call();
+    } catch (error) {
+        if (error instanceof AppError) throw error;
+        throw new RedditApiError(action, error);
+    }
+}
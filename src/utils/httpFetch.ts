@@ -0,0 +1,127 @@
+import { CONSTANTS } from '../config/constants.js';
+import { TransientNetworkError, UnsupportedContentError, httpStatusError, toAppError } from './errors.js';
+import { HTTP_RETRY_SCHEDULE, RetrySchedule } from './retrySchedule.js';
+import { parseRetryAfter } from '../providers/index.js';
+
+export function isRedirect(response: Response): boolean {
+    return response.status >= 300 && response.status < 400;
+}
+
+/**
+ * Reads a response body, refusing anything larger than the limit, or with
+ * truncate set, keeping only the bytes up to it.
+ * @param {Response} response - The response to read.
+ * @param {number} maxBytes - The size limit.
+ * @param {boolean} truncate - Cut the body at the limit instead of refusing it.
+ * @returns {Promise<Uint8Array>}
+ */
+export async function readBodyWithLimit(
+    response: Response,
+    maxBytes: number = CONSTANTS.MAX_RESPONSE_BYTES,
+    truncate: boolean = false
+): Promise<Uint8Array> {
+    const declaredLength = Number(response.headers.get('content-length') ?? 0);
+    if (declaredLength > maxBytes && !truncate) {
+        throw new UnsupportedContentError(`response is too large (${declaredLength} bytes)`);
+    }
+
+    if (!response.body) {
+        const bytes = new Uint8Array(await response.arrayBuffer());
+        if (bytes.byteLength > maxBytes) {
+            if (truncate) return bytes.slice(0, maxBytes);
+            throw new UnsupportedContentError(`response is too large (${bytes.byteLength} bytes)`);
+        }
+        return bytes;
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        if (received + value.byteLength > maxBytes) {
+            await reader.cancel();
+            if (!truncate) {
+                throw new UnsupportedContentError(`response is too large (over ${maxBytes} bytes)`);
+            }
+            chunks.push(value.subarray(0, maxBytes - received));
+            received = maxBytes;
+            break;
+        }
+        received += value.byteLength;
+        chunks.push(value);
+    }
+
+    const bytes = new Uint8Array(received);
+    let offset = 0;
+    for (const chunk of chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    return bytes;
+}
+
+/**
+ * Fetches a URL, retrying transient failures in process as the schedule
+ * allows. Failures the schedule won't wait for here are thrown, typed, for the
+ * queue to retry later.
+ * @param {string} url - The URL to fetch.
+ * @param {RequestInit} options - Fetch options.
+ * @param {RetrySchedule} schedule - When to retry.
+ * @returns {Promise<Response>}
+ */
+export async function fetchWithRetry(url: string, options: RequestInit, schedule: RetrySchedule = HTTP_RETRY_SCHEDULE): Promise<Response> {
+    const firstAttemptAt = Date.now();
+    for (let attempt = 1; ; attempt++) {
+        try {
+            console.debug(`Attempting to fetch: ${url} | Attempt ${attempt}`);
+            return await fetchOnce(url, options);
+        } catch (error) {
+            if (error instanceof TypeError) {
+                console.error(`Network error: The request was refused or the network is unavailable. Error: ${error.message}`);
+            } else if (error instanceof Error) {
+                console.error(`Fetch error: ${error.name} - ${error.message}`);
+            } else {
+                console.error(`Unknown error occurred during fetch: ${error}`);
+            }
+
+            const typed = toAppError(error);
+            const decision = schedule.decide(typed, attempt, firstAttemptAt);
+            if (!decision.retry) {
+                console.debug(`Not retrying ${url}: ${decision.reason}`);
+                throw typed;
+            }
+            console.debug(`Waiting for ${decision.delayMs}ms before retrying...`);
+            await delay(decision.delayMs);
+        }
+    }
+}
+
+async function fetchOnce(url: string, options: RequestInit): Promise<Response> {
+    const fetchPromise = fetch(url, options);
+
+    const timeoutPromise = new Promise((_, reject) =>
+        setTimeout(() => reject(new TransientNetworkError('Request timed out')), 30000) // 30 seconds timeout
+    );
+
+    return await Promise.race([
+        fetchPromise.then(async (res) => {
+            // Redirects are only returned when the caller follows them manually
+            if (!res.ok && !(options.redirect === 'manual' && isRedirect(res))) {
+                throw httpStatusError(res.status, `HTTP error! status: ${res.status}`, parseRetryAfter(res.headers.get('retry-after')));
+            }
+            return res;
+        }),
+        timeoutPromise
+    ]) as Response;
+}
+
+/**
+ * Delays execution for the specified number of milliseconds.
+ * @param {number} ms - Milliseconds to delay.
+ * @returns {Promise<void>}
+ */
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,139 @@
+import { Context, TxClientLike } from '@devvit/public-api';
+import { CONSTANTS } from '../config/constants.js';
+import { LeaseUnavailableError } from './errors.js';
+
+type PartialContext = Partial<Context>;
+
+function leaseKey(name: string): string {
+    return `lease:${name}`;
+}
+
+/**
+ * A named lock in Redis that expires unless its holder keeps renewing it, so
+ * a run that crashes can't block everyone else for long. While held, a
+ * heartbeat renews it every third of its TTL.
+ */
+export class Lease {
+    readonly name: string;
+    private readonly context: PartialContext;
+    private readonly token: string;
+    private readonly ttlMs: number;
+    private heartbeat: ReturnType<typeof setInterval> | null = null;
+    private lost = false;
+
+    private constructor(context: PartialContext, name: string, token: string, ttlMs: number) {
+        this.context = context;
+        this.name = name;
+        this.token = token;
+        this.ttlMs = ttlMs;
+    }
+
+    /**
+     * Takes the lease if nobody holds it.
+     * @param {PartialContext} context - The application context.
+     * @param {string} name - The lease name.
+     * @param {number} ttlMs - How long the lease lasts without a renewal.
+     * @returns {Promise<Lease | null>} The lease, or null when it is held elsewhere.
+     */
+    static async acquire(context: PartialContext, name: string, ttlMs: number): Promise<Lease | null> {
+        const key = leaseKey(name);
+        const token = `${Date.now()}:${Math.random().toString(36).slice(2)}`;
+        await context.redis?.set(key, token, { nx: true, expiration: new Date(Date.now() + ttlMs) });
+        // SET NX leaves the current holder's token in place, so reading it back tells who won
+        if ((await context.redis?.get(key)) !== token) {
+            return null;
+        }
+
+        const lease = new Lease(context, name, token, ttlMs);
+        lease.heartbeat = setInterval(() => {
+            lease.renew().catch(error => console.error(`Failed to renew lease ${name}:`, error));
+        }, Math.max(1000, Math.floor(ttlMs / 3)));
+        console.debug(`Acquired lease ${name}`);
+        return lease;
+    }
+
+    /**
+     * False once a renewal found the lease expired and taken by someone else.
+     */
+    get isHeld(): boolean {
+        return !this.lost;
+    }
+
+    /**
+     * Extends the lease by its TTL, if it is still ours.
+     * @returns {Promise<boolean>} Whether the lease is still held.
+     */
+    async renew(): Promise<boolean> {
+        const stillHeld = await this.ifHeld(async (txn, key) => {
+            await txn.set(key, this.token, { expiration: new Date(Date.now() + this.ttlMs) });
+        });
+        if (!stillHeld && !this.lost) {
+            console.warn(`Lost lease ${this.name}; another run may have taken over.`);
+            this.lost = true;
+        }
+        return stillHeld;
+    }
+
+    /**
+     * Stops the heartbeat and deletes the lease, unless it already passed to
+     * someone else.
+     */
+    async release(): Promise<void> {
+        if (this.heartbeat) {
+            clearInterval(this.heartbeat);
+            this.heartbeat = null;
+        }
+        await this.ifHeld(async (txn, key) => {
+            await txn.del(key);
+        });
+        console.debug(`Released lease ${this.name}`);
+    }
+
+    /**
+     * Runs a write against the lease key only while it still holds our token,
+     * watching the key so a concurrent takeover aborts the write.
+     */
+    private async ifHeld(
+        write: (txn: TxClientLike, key: string) => Promise<void>
+    ): Promise<boolean> {
+        const redis = this.context.redis;
+        if (!redis) return false;
+
+        const key = leaseKey(this.name);
+        const txn = await redis.watch(key);
+        if ((await redis.get(key)) !== this.token) {
+            await txn.unwatch();
+            return false;
+        }
+        await txn.multi();
+        await write(txn, key);
+        try {
+            const replies = await txn.exec();
+            return Boolean(replies && replies.length > 0);
+        } catch (error) {
+            console.debug(`Lease ${this.name} changed during the update:`, error);
+            return false;
+        }
+    }
+}
+
+/**
+ * Runs work on a post while holding its claim, so the queue, a moderator
+ * action and a manual summary never summarize the same post at once.
+ * @param {PartialContext} context - The application context.
+ * @param {string} postId - The post to claim.
+ * @param {() => Promise<T>} work - What to do with the post.
+ * @throws {LeaseUnavailableError} When the post is claimed elsewhere.
+ * @returns {Promise<T>}
+ */
+export async function withPostClaim<T>(context: PartialContext, postId: string, work: () => Promise<T>): Promise<T> {
+    const claim = await Lease.acquire(context, `post:${postId}`, CONSTANTS.LEASE_TTL);
+    if (!claim) {
+        throw new LeaseUnavailableError(`post:${postId}`);
+    }
+    try {
+        return await work();
+    } finally {
+        await claim.release();
+    }
+}
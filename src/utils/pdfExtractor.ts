@@ -0,0 +1,398 @@
+import { unzlibSync, inflateSync } from 'fflate';
+
+/**
+ * Best-effort text layer extraction from PDF files in pure JavaScript.
+ *
+ * Content streams are located with a byte scan rather than by walking the
+ * cross-reference table, FlateDecode streams are inflated, and the text
+ * showing operators (Tj, TJ, ' and ") are interpreted. Hex strings are mapped
+ * through any ToUnicode CMaps found in the file, which covers the CID fonts
+ * most modern PDF generators emit. Scanned PDFs without a text layer yield an
+ * empty string.
+ */
+
+// WHATWG decodes 'latin1' as windows-1252: still one code unit per byte, but
+// bytes 0x80-0x9F become other code points, so binary strings are decoded
+// from the original bytes rather than from text decoded with it
+const LATIN1 = new TextDecoder('latin1');
+
+interface RawStream {
+  dictionary: string;
+  data: Uint8Array;
+}
+
+function findStreams(text: string, bytes: Uint8Array): RawStream[] {
+  const streams: RawStream[] = [];
+  const pattern = />>\s*stream\r?\n/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const start = match.index + match[0].length;
+    // The stream dictionary runs from the enclosing "obj" keyword to the stream keyword
+    const objStart = text.lastIndexOf('obj', match.index);
+    const dictionary = text.slice(Math.max(objStart, match.index - 4000, 0), match.index + 2);
+
+    const lengthMatch = dictionary.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/);
+    let end = lengthMatch ? start + parseInt(lengthMatch[1], 10) : -1;
+    // Indirect or wrong /Length values are common; fall back to the endstream keyword
+    if (end < start || text.slice(end, end + 20).indexOf('endstream') === -1) {
+      end = text.indexOf('endstream', start);
+    }
+    if (end === -1) break;
+
+    streams.push({ dictionary, data: bytes.subarray(start, end) });
+    pattern.lastIndex = end;
+  }
+  return streams;
+}
+
+function decodeStream(stream: RawStream): string | null {
+  const filters = stream.dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] ?? '';
+  // Images, fonts and anything with a filter we can't undo carry no text
+  if (/\/Subtype\s*\/Image|\/FontFile|\/Length1/.test(stream.dictionary)) return null;
+  if (filters && filters.replace(/\/FlateDecode|\/Fl\b|[\[\]\s]/g, '') !== '') return null;
+
+  let data = stream.data;
+  if (filters) {
+    try {
+      data = unzlibSync(data);
+    } catch {
+      try {
+        data = inflateSync(data);
+      } catch {
+        return null;
+      }
+    }
+  }
+  return LATIN1.decode(data);
+}
+
+const NAME_PATTERN = /[^\s\/\[\]()<>{}%]*/y;
+const NUMBER_PATTERN = /[+\-]?(\d+\.?\d*|\.\d+)/y;
+const OPERATOR_PATTERN = /[^\s\/\[\]()<>{}%]+/y;
+
+// Sticky matching avoids copying the rest of the stream for every token
+function matchAt(pattern: RegExp, source: string, index: number): string | null {
+  pattern.lastIndex = index;
+  return pattern.exec(source)?.[0] ?? null;
+}
+
+type Operand = string | number | Operand[] | { hex: string } | { name: string };
+
+/**
+ * Minimal PostScript-style tokenizer for content streams. Yields operands
+ * followed by the operator that consumes them.
+ */
+function* tokenize(source: string): Generator<{ operator: string; operands: Operand[] }> {
+  let operands: Operand[] = [];
+  const arrayStack: Operand[][] = [];
+  const push = (operand: Operand) => {
+    const target = arrayStack[arrayStack.length - 1] ?? operands;
+    target.push(operand);
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '%') {
+      while (i < source.length && source[i] !== '\n' && source[i] !== '\r') i++;
+    } else if (char === '(') {
+      let depth = 1;
+      let value = '';
+      i++;
+      while (i < source.length && depth > 0) {
+        const current = source[i];
+        if (current === '\\') {
+          const next = source[i + 1];
+          const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', '(': '(', ')': ')', '\\': '\\' };
+          if (next in escapes) {
+            value += escapes[next];
+            i += 2;
+          } else if (/[0-7]/.test(next)) {
+            const octal = source.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)?.[0] ?? next;
+            value += String.fromCharCode(parseInt(octal, 8));
+            i += 1 + octal.length;
+          } else {
+            // Line continuation or unknown escape: drop the backslash
+            i += next === '\r' && source[i + 2] === '\n' ? 3 : 2;
+          }
+          continue;
+        }
+        if (current === '(') depth++;
+        if (current === ')') depth--;
+        if (depth > 0) value += current;
+        i++;
+      }
+      push(value);
+    } else if (char === '<' && source[i + 1] === '<') {
+      // Inline dictionaries (e.g. marked content properties) are skipped
+      const end = source.indexOf('>>', i);
+      i = end === -1 ? source.length : end + 2;
+    } else if (char === '<') {
+      const end = source.indexOf('>', i);
+      push({ hex: source.slice(i + 1, end === -1 ? source.length : end).replace(/\s/g, '') });
+      i = end === -1 ? source.length : end + 1;
+    } else if (char === '[') {
+      arrayStack.push([]);
+      i++;
+    } else if (char === ']') {
+      const array = arrayStack.pop() ?? [];
+      push(array);
+      i++;
+    } else if (char === '/') {
+      const name = matchAt(NAME_PATTERN, source, i + 1) ?? '';
+      push({ name });
+      i += 1 + name.length;
+    } else if (/[0-9+\-.]/.test(char)) {
+      const number = matchAt(NUMBER_PATTERN, source, i);
+      if (number) {
+        push(parseFloat(number));
+        i += number.length;
+      } else {
+        i++;
+      }
+    } else {
+      const operator = matchAt(OPERATOR_PATTERN, source, i) ?? char;
+      i += operator.length;
+      // Inline images contain binary data up to the EI operator
+      if (operator === 'BI') {
+        const end = source.indexOf('EI', i);
+        i = end === -1 ? source.length : end + 2;
+        operands = [];
+        continue;
+      }
+      yield { operator, operands };
+      operands = [];
+    }
+  }
+}
+
+// Mappings kept across all CMaps of a file; a few fonts need tens of thousands at most
+const MAX_CMAP_ENTRIES = 200000;
+// Character codes are at most 4 bytes (8 hex digits) long
+const MAX_CODE_HEX_LENGTH = 8;
+
+/**
+ * Collects the bfchar and bfrange mappings of every ToUnicode CMap in the
+ * file. Mappings from different fonts are merged, which is usually harmless
+ * because generators assign glyph IDs per document. Parsing stops once
+ * MAX_CMAP_ENTRIES mappings have been read, so a crafted file can't exhaust
+ * memory.
+ */
+function parseCMaps(decodedStreams: string[]): Map<string, string> {
+  const map = new Map<string, string>();
+  // Counts every mapping read, so repeated ranges use up the budget too
+  let entries = 0;
+  const hexToString = (hex: string) => {
+    let result = '';
+    for (let i = 0; i + 4 <= hex.length; i += 4) {
+      result += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+    }
+    return result;
+  };
+
+  for (const stream of decodedStreams) {
+    if (!stream.includes('begincmap')) continue;
+
+    for (const block of stream.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+      for (const pair of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>/g)) {
+        if (pair[1].length > MAX_CODE_HEX_LENGTH) continue;
+        if (++entries > MAX_CMAP_ENTRIES) return capped(map);
+        map.set(pair[1].toLowerCase(), hexToString(pair[2]));
+      }
+    }
+
+    for (const block of stream.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+      for (const range of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]+>|\[[^\]]*\])/g)) {
+        const width = range[1].length;
+        const start = parseInt(range[1], 16);
+        const end = parseInt(range[2], 16);
+        if (width > MAX_CODE_HEX_LENGTH || range[2].length > MAX_CODE_HEX_LENGTH || end < start) continue;
+        const destinations = range[3].startsWith('[')
+          ? [...range[3].matchAll(/<([0-9a-fA-F]+)>/g)].map(item => hexToString(item[1]))
+          : null;
+        const base = destinations ? 0 : parseInt(range[3].slice(1, -1), 16);
+        for (let code = start; code <= end && code - start < 65536; code++) {
+          if (++entries > MAX_CMAP_ENTRIES) return capped(map);
+          const key = code.toString(16).padStart(width, '0');
+          map.set(key, destinations ? destinations[code - start] ?? '' : String.fromCharCode(base + code - start));
+        }
+      }
+    }
+  }
+  return map;
+}
+
+function capped(map: Map<string, string>): Map<string, string> {
+  console.warn(`Stopped reading ToUnicode CMaps after ${MAX_CMAP_ENTRIES} mappings.`);
+  return map;
+}
+
+function decodeHex(hex: string, cmap: Map<string, string>): string {
+  if (cmap.size > 0) {
+    // Try two-byte codes first (CID fonts), then single bytes
+    for (const width of [4, 2]) {
+      if (hex.length % width !== 0) continue;
+      let result = '';
+      let mapped = true;
+      for (let i = 0; i < hex.length; i += width) {
+        const value = cmap.get(hex.slice(i, i + width).toLowerCase());
+        if (value === undefined) {
+          mapped = false;
+          break;
+        }
+        result += value;
+      }
+      if (mapped) return result;
+    }
+  }
+  let result = '';
+  for (let i = 0; i + 2 <= hex.length; i += 2) {
+    result += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16));
+  }
+  return result;
+}
+
+function showText(operand: Operand, cmap: Map<string, string>): string {
+  if (typeof operand === 'string') return operand;
+  if (Array.isArray(operand)) {
+    // Large negative kerning inside TJ arrays is how PDFs encode word spaces
+    return operand
+      .map(item => (typeof item === 'number' ? (item < -200 ? ' ' : '') : showText(item, cmap)))
+      .join('');
+  }
+  if (typeof operand === 'object' && 'hex' in operand) return decodeHex(operand.hex, cmap);
+  return '';
+}
+
+function extractFromContentStream(source: string, cmap: Map<string, string>): string {
+  let output = '';
+  for (const { operator, operands } of tokenize(source)) {
+    switch (operator) {
+      case 'Tj':
+        output += showText(operands[0], cmap);
+        break;
+      case 'TJ':
+        output += showText(operands[0], cmap);
+        break;
+      case "'":
+        output += '\n' + showText(operands[0], cmap);
+        break;
+      case '"':
+        output += '\n' + showText(operands[2], cmap);
+        break;
+      case 'T*':
+        output += '\n';
+        break;
+      case 'Td':
+      case 'TD': {
+        const ty = operands[1];
+        output += typeof ty === 'number' && ty !== 0 ? '\n' : ' ';
+        break;
+      }
+      case 'Tm':
+        output += '\n';
+        break;
+      case 'ET':
+        output += '\n';
+        break;
+    }
+  }
+  return output;
+}
+
+const LITERAL_ESCAPES: Record<number, number> = {
+  0x6e: 0x0a, // n
+  0x72: 0x0d, // r
+  0x74: 0x09, // t
+  0x62: 0x08, // b
+  0x66: 0x0c, // f
+};
+
+/**
+ * Undoes the backslash escapes of a literal string's bytes.
+ */
+function unescapeLiteral(raw: Uint8Array): Uint8Array {
+  const output: number[] = [];
+  for (let i = 0; i < raw.length; i++) {
+    if (raw[i] !== 0x5c || i + 1 >= raw.length) {
+      output.push(raw[i]);
+      continue;
+    }
+    const next = raw[++i];
+    if (next in LITERAL_ESCAPES) {
+      output.push(LITERAL_ESCAPES[next]);
+    } else if (next >= 0x30 && next <= 0x37) {
+      let code = next - 0x30;
+      for (let digits = 1; digits < 3 && raw[i + 1] >= 0x30 && raw[i + 1] <= 0x37; digits++) {
+        code = code * 8 + raw[++i] - 0x30;
+      }
+      output.push(code & 0xff);
+    } else if (next === 0x0d || next === 0x0a) {
+      // Line continuation
+      if (next === 0x0d && raw[i + 1] === 0x0a) i++;
+    } else {
+      // \(, \) and \\ stand for the character itself, and unknown escapes drop the backslash
+      output.push(next);
+    }
+  }
+  return Uint8Array.from(output);
+}
+
+/**
+ * Decodes a text string: UTF-16BE or UTF-8 when it starts with a byte order
+ * mark, and PDFDocEncoding, approximated by windows-1252, otherwise.
+ */
+function decodeTextString(bytes: Uint8Array): string {
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+  }
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return new TextDecoder('utf-8').decode(bytes.subarray(3));
+  }
+  return LATIN1.decode(bytes);
+}
+
+/**
+ * Reads /Title from the document information dictionary, if it is stored as
+ * an uncompressed literal string (PDFDocEncoding, or UTF-16BE or UTF-8 with a
+ * BOM). The string is located in the decoded text and read from the bytes.
+ */
+function extractInfoTitle(text: string, bytes: Uint8Array): string | null {
+  const match = text.match(/\/Title\s*\(((?:\\[\s\S]|[^\\)])*)\)/);
+  if (!match || match.index === undefined) return null;
+
+  const start = match.index + match[0].indexOf('(') + 1;
+  const raw = bytes.subarray(start, start + match[1].length);
+  return decodeTextString(unescapeLiteral(raw)).trim() || null;
+}
+
+/**
+ * Extracts the text layer of a PDF.
+ * @param {Uint8Array} bytes - The raw PDF file.
+ * @returns {{ title: string | null; content: string }}
+ */
+export function extractPdfText(bytes: Uint8Array): { title: string | null; content: string } {
+  // latin1 maps bytes 1:1 onto code units, so string offsets are byte offsets
+  const text = LATIN1.decode(bytes);
+  const decodedStreams = findStreams(text, bytes)
+    .map(decodeStream)
+    .filter((stream): stream is string => stream !== null);
+  const cmap = parseCMaps(decodedStreams);
+
+  const pages = decodedStreams
+    .filter(stream => /\bBT\b/.test(stream) && /\bET\b/.test(stream) && !stream.includes('begincmap'))
+    .map(stream => extractFromContentStream(stream, cmap));
+
+  const content = pages
+    .join('\n\n')
+    .replace(/[^\S\n]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return { title: extractInfoTitle(text, bytes), content };
+}
@@ -0,0 +1,175 @@
+import { Context, Post, User } from '@devvit/public-api';
+import { getDomain } from './summaryUtils.js';
+
+type PartialContext = Partial<Context>;
+
+/**
+ * The filter rule that excluded a post, for the moderator-facing logs.
+ */
+export interface FilterMatch {
+    rule: string;
+    detail: string;
+}
+
+const REDDIT_DOMAIN_PATTERN = /(^|\.)reddit\.com$/;
+
+/**
+ * Splits a list setting on newlines and commas.
+ */
+export function parseListSetting(value: string | undefined): string[] {
+    return (value ?? '')
+        .split(/[\n,]/)
+        .map(entry => entry.trim().toLowerCase())
+        .filter(entry => entry !== '');
+}
+
+/**
+ * Matches a domain against a list entry. "*" matches any run of characters,
+ * and "*.example.com" also matches example.com itself.
+ */
+export function domainMatches(domain: string, pattern: string): boolean {
+    const normalized = pattern.replace(/^www\./, '');
+    if (normalized.startsWith('*.') && domain === normalized.slice(2)) {
+        return true;
+    }
+    const body = normalized
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+    return new RegExp(`^${body}$`).test(domain);
+}
+
+/**
+ * Checks a title pattern setting, for use in onValidate.
+ * @returns {string | undefined} An error message, or undefined when the pattern compiles.
+ */
+export function validateRegexSetting(value: string | undefined): string | undefined {
+    if (!value || value.trim() === '') return undefined;
+    try {
+        new RegExp(value, 'i');
+        return undefined;
+    } catch (error) {
+        return `Invalid regular expression: ${(error as Error).message}`;
+    }
+}
+
+function checkDomain(domain: string, allowlist: string[], blocklist: string[]): FilterMatch | null {
+    const blocked = blocklist.find(pattern => domainMatches(domain, pattern));
+    if (blocked) {
+        return { rule: 'domain_blocklist', detail: `${domain} matches ${blocked}` };
+    }
+    if (allowlist.length > 0 && !allowlist.some(pattern => domainMatches(domain, pattern))) {
+        return { rule: 'domain_allowlist', detail: `${domain} is not on the allowlist` };
+    }
+    return null;
+}
+
+function checkFlair(flair: string, include: string[], exclude: string[]): FilterMatch | null {
+    const normalized = flair.trim().toLowerCase();
+    if (normalized && exclude.includes(normalized)) {
+        return { rule: 'flair_exclude', detail: `flair "${flair}" is excluded` };
+    }
+    if (include.length > 0 && !include.includes(normalized)) {
+        return { rule: 'flair_include', detail: normalized ? `flair "${flair}" is not included` : 'post has no flair' };
+    }
+    return null;
+}
+
+function checkTitle(title: string, includePattern: string, excludePattern: string): FilterMatch | null {
+    // Invalid patterns are rejected when the settings are saved, so failures here are ignored
+    try {
+        if (excludePattern && new RegExp(excludePattern, 'i').test(title)) {
+            return { rule: 'title_exclude_regex', detail: `title matches /${excludePattern}/` };
+        }
+        if (includePattern && !new RegExp(includePattern, 'i').test(title)) {
+            return { rule: 'title_include_regex', detail: `title does not match /${includePattern}/` };
+        }
+    } catch (error) {
+        console.warn('Ignoring invalid title filter pattern:', error);
+    }
+    return null;
+}
+
+async function checkAuthor(post: Post, context: PartialContext, minKarma: number, minAgeDays: number): Promise<FilterMatch | null> {
+    if (minKarma <= 0 && minAgeDays <= 0) return null;
+
+    let author: User | undefined;
+    try {
+        author = post.authorName ? await context.reddit?.getUserByUsername(post.authorName) : undefined;
+    } catch (error) {
+        // An API failure says nothing about the author, so the post isn't excluded for it
+        console.warn(`Could not load u/${post.authorName} to check the author filters. Skipping them:`, error);
+        return null;
+    }
+    if (!author) {
+        return { rule: 'author', detail: 'author account is unavailable' };
+    }
+
+    const karma = author.linkKarma + author.commentKarma;
+    if (minKarma > 0 && karma < minKarma) {
+        return { rule: 'min_author_karma', detail: `u/${author.username} has ${karma} karma, below ${minKarma}` };
+    }
+
+    const ageDays = (Date.now() - author.createdAt.getTime()) / 86400000;
+    if (minAgeDays > 0 && ageDays < minAgeDays) {
+        return { rule: 'min_account_age_days', detail: `u/${author.username} is ${Math.floor(ageDays)} days old, below ${minAgeDays}` };
+    }
+    return null;
+}
+
+/**
+ * Applies the automatic mode filter settings to a post. Runs when a post is
+ * submitted and again when the queue is processed, since settings and posts
+ * (flair, NSFW marks) can change in between.
+ * @param {Post} post - The post to check.
+ * @param {PartialContext} context - The application context.
+ * @param {string | null} sourceUrl - The link that would be summarized, when
+ * already known. Domain rules don't apply to text posts.
+ * @returns {Promise<FilterMatch | null>} The first rule that excludes the post, or null.
+ */
+export async function checkPostFilters(
+    post: Post,
+    context: PartialContext,
+    sourceUrl: string | null = post.url
+): Promise<FilterMatch | null> {
+    const settings = await context.settings?.getAll();
+
+    if (settings?.exclude_nsfw && post.nsfw) {
+        return { rule: 'exclude_nsfw', detail: 'post is marked NSFW' };
+    }
+    if (settings?.exclude_spoilers && post.spoiler) {
+        return { rule: 'exclude_spoilers', detail: 'post is marked as a spoiler' };
+    }
+
+    const domain = sourceUrl ? getDomain(sourceUrl) : '';
+    // Text posts and crossposts point at reddit.com until their source is resolved
+    if (domain && !REDDIT_DOMAIN_PATTERN.test(domain)) {
+        const domainMatch = checkDomain(
+            domain,
+            parseListSetting(settings?.domain_allowlist as string | undefined),
+            parseListSetting(settings?.domain_blocklist as string | undefined)
+        );
+        if (domainMatch) return domainMatch;
+    }
+
+    const flairMatch = checkFlair(
+        post.flair?.text ?? '',
+        parseListSetting(settings?.flair_include as string | undefined),
+        parseListSetting(settings?.flair_exclude as string | undefined)
+    );
+    if (flairMatch) return flairMatch;
+
+    const titleMatch = checkTitle(
+        post.title,
+        ((settings?.title_include_regex as string | undefined) ?? '').trim(),
+        ((settings?.title_exclude_regex as string | undefined) ?? '').trim()
+    );
+    if (titleMatch) return titleMatch;
+
+    return checkAuthor(
+        post,
+        context,
+        (settings?.min_author_karma as number | undefined) ?? 0,
+        (settings?.min_account_age_days as number | undefined) ?? 0
+    );
+}
@@ -0,0 +1,186 @@
+import { Context } from '@devvit/public-api';
+import { CONSTANTS } from '../config/constants.js';
+
+type PartialContext = Partial<Context>;
+
+/**
+ * Priority lanes, highest first:
+ * - 'moderator': requeued or prioritized by a moderator
+ * - 'trending': the post's score or comment rate crossed the thresholds
+ * - 'normal': everything else, first in first out
+ */
+export type QueueLane = 'moderator' | 'trending' | 'normal';
+
+export interface QueuedPost {
+    postId: string;
+    lane: QueueLane;
+    enqueuedAt: number;
+    dueAt: number;
+}
+
+interface QueueEntry {
+    lane: QueueLane;
+    enqueuedAt: number;
+}
+
+interface QueueSettings {
+    batchSize: number;
+    scoreThreshold: number;
+    commentsPerHourThreshold: number;
+    promotionMs: number;
+}
+
+// Scored by when each post is next due, which is later than its submit time after a failure
+export const POST_QUEUE_KEY = 'post_queue';
+// Lane and enqueue time of each queued post, as JSON keyed by post ID
+const QUEUE_ENTRIES_KEY = 'post_queue_entries';
+
+function activityCheckKey(postId: string): string {
+    return `queue_activity_checked:${postId}`;
+}
+
+const LANE_RANK: Record<QueueLane, number> = { moderator: 0, trending: 1, normal: 2 };
+
+/**
+ * Adds a post to the queue, or moves it to the given lane if it is already
+ * queued. The time it was first enqueued is kept, so requeueing a post does
+ * not reset its age.
+ * @param {PartialContext} context - The application context.
+ * @param {string} postId - The post to queue.
+ * @param {QueueLane} lane - The lane to queue it in.
+ * @param {number} dueAt - When it may be processed.
+ */
+export async function enqueuePost(
+    context: PartialContext,
+    postId: string,
+    lane: QueueLane = 'normal',
+    dueAt: number = Date.now()
+): Promise<void> {
+    const existing = await getQueueEntry(context, postId);
+    const entry: QueueEntry = { lane, enqueuedAt: existing?.enqueuedAt ?? dueAt };
+    await context.redis?.hSet(QUEUE_ENTRIES_KEY, { [postId]: JSON.stringify(entry) });
+    await context.redis?.zAdd(POST_QUEUE_KEY, { member: postId, score: dueAt });
+}
+
+/**
+ * Moves a queued post's due time, keeping its lane.
+ */
+export async function reschedulePost(context: PartialContext, postId: string, dueAt: number): Promise<void> {
+    await context.redis?.zAdd(POST_QUEUE_KEY, { member: postId, score: dueAt });
+}
+
+/**
+ * Takes a post off the queue along with its lane and retry count.
+ */
+export async function removeFromQueue(context: PartialContext, postId: string): Promise<void> {
+    await context.redis?.zRem(POST_QUEUE_KEY, [postId]);
+    await context.redis?.hDel(QUEUE_ENTRIES_KEY, [postId]);
+    await context.redis?.del(`retry:${postId}`);
+}
+
+function parseEntry(raw: string | undefined): QueueEntry | null {
+    if (!raw) return null;
+    try {
+        return JSON.parse(raw) as QueueEntry;
+    } catch {
+        return null;
+    }
+}
+
+async function getQueueEntry(context: PartialContext, postId: string): Promise<QueueEntry | null> {
+    return parseEntry(await context.redis?.hGet(QUEUE_ENTRIES_KEY, postId));
+}
+
+/**
+ * Looks up the lanes of queued posts, for the dashboard.
+ */
+export async function getQueueLanes(context: PartialContext, postIds: string[]): Promise<Map<string, QueueLane>> {
+    const lanes = new Map<string, QueueLane>();
+    for (const postId of postIds) {
+        lanes.set(postId, (await getQueueEntry(context, postId))?.lane ?? 'normal');
+    }
+    return lanes;
+}
+
+/**
+ * Reads the batch size and lane thresholds from the queue settings.
+ * @param {PartialContext} context - The application context.
+ * @returns {Promise<QueueSettings>}
+ */
+async function getQueueSettings(context: PartialContext): Promise<QueueSettings> {
+    const settings = await context.settings?.getAll();
+    return {
+        batchSize: (settings?.queue_batch_size as number | undefined) || CONSTANTS.DEFAULT_QUEUE_BATCH_SIZE,
+        scoreThreshold: (settings?.priority_score_threshold as number | undefined) || CONSTANTS.DEFAULT_PRIORITY_SCORE_THRESHOLD,
+        commentsPerHourThreshold:
+            (settings?.priority_comments_per_hour as number | undefined) || CONSTANTS.DEFAULT_PRIORITY_COMMENTS_PER_HOUR,
+        promotionMs: ((settings?.queue_promotion_minutes as number | undefined) || CONSTANTS.DEFAULT_QUEUE_PROMOTION_MINUTES) * 60000,
+    };
+}
+
+/**
+ * Checks whether a post has taken off: its score, or the number of comments
+ * per hour since it was created, is at or over the threshold. A post found
+ * not trending isn't checked again for QUEUE_ACTIVITY_CHECK_INTERVAL.
+ */
+async function isTrending(context: PartialContext, postId: string, settings: QueueSettings, now: number): Promise<boolean> {
+    await context.redis?.set(activityCheckKey(postId), now.toString(), {
+        expiration: new Date(now + CONSTANTS.QUEUE_ACTIVITY_CHECK_INTERVAL),
+    });
+    try {
+        const post = await context.reddit?.getPostById(postId);
+        if (!post) return false;
+        // Very new posts are measured over a minimum age so one early comment isn't a spike
+        const ageHours = Math.max(now - post.createdAt.getTime(), CONSTANTS.PRIORITY_MIN_POST_AGE) / 3600000;
+        return post.score >= settings.scoreThreshold || post.numberOfComments / ageHours >= settings.commentsPerHourThreshold;
+    } catch (error) {
+        console.warn(`Could not check activity on post ${postId}:`, error);
+        return false;
+    }
+}
+
+/**
+ * Picks the posts to process in this run. Due posts are ordered by lane and
+ * then by the time they were enqueued. Every full promotion interval a post
+ * has waited moves it up one lane, so a busy moderator or trending lane
+ * can't starve the normal one.
+ * @param {PartialContext} context - The application context.
+ * @param {number} now - The current time.
+ * @returns {Promise<QueuedPost[]>} At most the configured batch size of posts, in processing order.
+ */
+export async function selectBatch(context: PartialContext, now: number = Date.now()): Promise<QueuedPost[]> {
+    const settings = await getQueueSettings(context);
+    const due = (await context.redis?.zRange(POST_QUEUE_KEY, 0, now, { by: 'score' })) ?? [];
+    console.debug(`${due.length} posts are due in the queue.`);
+
+    const entries = (await context.redis?.hGetAll(QUEUE_ENTRIES_KEY)) ?? {};
+    const candidates: (QueuedPost & { rank: number })[] = [];
+    let activityChecks = 0;
+    for (const { member: postId, score: dueAt } of due) {
+        // Posts queued before lanes existed have no entry; their score is their submit time
+        const entry: QueueEntry = parseEntry(entries[postId]) ?? { lane: 'normal', enqueuedAt: dueAt };
+        // Checking activity costs a Reddit call, so it is limited per run and per post;
+        // posts that aren't checked are still ranked in their current lane
+        if (
+            entry.lane === 'normal' &&
+            activityChecks < CONSTANTS.QUEUE_SCAN_LIMIT &&
+            !(await context.redis?.get(activityCheckKey(postId)))
+        ) {
+            activityChecks++;
+            if (await isTrending(context, postId, settings, now)) {
+                console.info(`Post ID ${postId} is trending. Moving it to the trending lane.`);
+                entry.lane = 'trending';
+                await context.redis?.hSet(QUEUE_ENTRIES_KEY, { [postId]: JSON.stringify(entry) });
+            }
+        }
+
+        const promotions = Math.floor((now - entry.enqueuedAt) / settings.promotionMs);
+        const rank = Math.max(0, LANE_RANK[entry.lane] - promotions);
+        candidates.push({ postId, lane: entry.lane, enqueuedAt: entry.enqueuedAt, dueAt, rank });
+    }
+
+    candidates.sort((a, b) => a.rank - b.rank || a.enqueuedAt - b.enqueuedAt);
+    const batch = candidates.slice(0, settings.batchSize);
+    console.debug(`Selected ${batch.length} posts: ${batch.map(post => `${post.postId} (${post.lane})`).join(', ')}`);
+    return batch.map(({ postId, lane, enqueuedAt, dueAt }) => ({ postId, lane, enqueuedAt, dueAt }));
+}
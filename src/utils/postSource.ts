@@ -0,0 +1,165 @@
+import { Context, Post } from '@devvit/public-api';
+import { CONSTANTS } from '../config/constants.js';
+import { fetchArticleContent, ArticleContent } from './scrapeUtils.js';
+import { UnsupportedContentError } from './errors.js';
+
+type PartialContext = Partial<Context>;
+
+/**
+ * Where the text we summarize comes from: the linked page, the post's own
+ * body, or whatever the original post of a crosspost points to.
+ */
+export type SourceKind = 'link' | 'self' | 'crosspost';
+
+export interface PostSource {
+    kind: SourceKind;
+    url: string;
+    // The post whose link or body is summarized; the original post for crossposts
+    post: Post;
+    // Body of the source post when it is a text post, null for links
+    selfText: string | null;
+}
+
+const REDDIT_HOST_PATTERN = /(^|\.)reddit\.com$/i;
+
+function permalinkUrl(post: Post): string {
+    return `https://www.reddit.com${post.permalink}`;
+}
+
+function parseUrl(url: string): URL | null {
+    try {
+        return new URL(url, 'https://www.reddit.com');
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Text posts link to their own permalink.
+ */
+function isSelfPost(post: Post): boolean {
+    if (!post.url) return true;
+    const url = parseUrl(post.url);
+    if (!url || !REDDIT_HOST_PATTERN.test(url.hostname)) return false;
+    return url.pathname.replace(/\/+$/, '') === post.permalink.replace(/\/+$/, '');
+}
+
+/**
+ * Crossposts link to the original post's permalink, which is how we find it.
+ * @returns {string | null} The original post's ID, or null for anything else.
+ */
+function crosspostParentId(post: Post): string | null {
+    const url = parseUrl(post.url);
+    if (!url || !REDDIT_HOST_PATTERN.test(url.hostname)) return null;
+    const id = url.pathname.match(/\/comments\/([a-z0-9]+)/i)?.[1];
+    if (!id || `t3_${id}` === post.id) return null;
+    return `t3_${id}`;
+}
+
+/**
+ * Rejects media that Reddit hosts itself, which has no text to summarize.
+ */
+function assertNotRedditMedia(url: string): void {
+    const parsed = parseUrl(url);
+    if (!parsed) return;
+    if (/^v\.redd\.it$/i.test(parsed.hostname)) {
+        throw new UnsupportedContentError('Reddit-hosted video');
+    }
+    if (REDDIT_HOST_PATTERN.test(parsed.hostname) && parsed.pathname.startsWith('/gallery/')) {
+        throw new UnsupportedContentError('Reddit image gallery');
+    }
+}
+
+/**
+ * Works out what a post should be summarized from, following crossposts
+ * back to the original post.
+ * @param {Post} post - The submitted post.
+ * @param {PartialContext} context - The application context.
+ * @returns {Promise<PostSource>}
+ */
+export async function resolvePostSource(post: Post, context: PartialContext): Promise<PostSource> {
+    let current = post;
+    for (let depth = 0; depth <= CONSTANTS.MAX_CROSSPOST_DEPTH; depth++) {
+        if (isSelfPost(current)) {
+            return {
+                kind: depth > 0 ? 'crosspost' : 'self',
+                url: permalinkUrl(current),
+                post: current,
+                selfText: current.body ?? '',
+            };
+        }
+
+        const parentId = crosspostParentId(current);
+        if (!parentId) {
+            assertNotRedditMedia(current.url);
+            return { kind: depth > 0 ? 'crosspost' : 'link', url: current.url, post: current, selfText: null };
+        }
+
+        console.debug(`Post ${current.id} is a crosspost of ${parentId}`);
+        const parent = await context.reddit?.getPostById(parentId);
+        if (!parent) {
+            throw new UnsupportedContentError('the original post of this crosspost is unavailable');
+        }
+        current = parent;
+    }
+
+    throw new UnsupportedContentError('crosspost chain is too long');
+}
+
+/**
+ * Explains why a text post can't be summarized under the current settings.
+ * @returns {Promise<string | null>} The reason, or null when it can be summarized.
+ */
+export async function selfPostSkipReason(source: PostSource, context: PartialContext): Promise<string | null> {
+    if (source.selfText === null) return null;
+
+    const enabled = (await context.settings?.get<boolean>('summarize_self_posts')) ?? false;
+    if (!enabled) {
+        return 'text post summarization is disabled';
+    }
+
+    const minLength = (await context.settings?.get<number>('self_post_min_length')) ?? CONSTANTS.DEFAULT_SELF_POST_MIN_LENGTH;
+    if (source.selfText.trim().length < minLength) {
+        return `text post is shorter than ${minLength} characters`;
+    }
+    return null;
+}
+
+/**
+ * Loads the text to summarize for a resolved source: the post body for text
+ * posts, otherwise the linked page.
+ * @param {PostSource} source - The resolved source.
+ * @param {PartialContext} context - The application context.
+ * @returns {Promise<ArticleContent>}
+ */
+export async function fetchSourceContent(source: PostSource, context: PartialContext): Promise<ArticleContent> {
+    if (source.selfText === null) {
+        return fetchArticleContent(source.url, context);
+    }
+
+    const skipReason = await selfPostSkipReason(source, context);
+    if (skipReason) {
+        throw new UnsupportedContentError(skipReason);
+    }
+
+    return {
+        title: source.post.title,
+        content: source.selfText.trim(),
+        scriptlessUrl: null,
+        metadata: {
+            author: source.post.authorName ? `u/${source.post.authorName}` : null,
+            publishedAt: source.post.createdAt.toISOString(),
+            siteName: `r/${source.post.subredditName}`,
+        },
+        canonicalUrl: null,
+    };
+}
+
+/**
+ * Records which source kind was used for a queued post, so it can be checked later.
+ */
+export async function recordPostSource(context: PartialContext, postId: string, source: PostSource): Promise<void> {
+    const key = `source:${postId}`;
+    await context.redis?.hSet(key, { kind: source.kind, url: source.url });
+    await context.redis?.expire(key, CONSTANTS.POST_SOURCE_TTL);
+}
@@ -0,0 +1,155 @@
+/**
+ * Minimal, logic-less templating for moderator-editable prompts.
+ *
+ * Supported syntax:
+ *   {name}                       - inserts a variable
+ *   {#if name}...{else}...{/if}  - renders a branch depending on whether the variable is non-empty
+ *   {{ and }}                    - literal braces
+ *
+ * Values are inserted verbatim in a single pass, so text inside a variable
+ * (e.g. scraped page content containing "{title}") is never re-interpreted.
+ */
+
+export const PROMPT_VARIABLES = ['url', 'title', 'content', 'domain', 'post_title', 'subreddit', 'author', 'published', 'site_name'] as const;
+
+export type PromptVariable = typeof PROMPT_VARIABLES[number];
+export type PromptVariables = Record<PromptVariable, string>;
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string }
+  | { type: 'if'; name: string; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+const TAG_PATTERN = /\{\{|\}\}|\{([^{}]*)\}/g;
+const NAME_PATTERN = /^[a-z_][a-z0-9_]*$/;
+
+function parse(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Each frame tracks the open {#if} and which branch we're appending to
+  const stack: { node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean }[] = [];
+  const current = (): TemplateNode[] => {
+    const frame = stack[stack.length - 1];
+    if (!frame) return root;
+    return frame.inElse ? frame.node.otherwise : frame.node.then;
+  };
+  const pushText = (value: string) => {
+    if (value) current().push({ type: 'text', value });
+  };
+
+  let lastIndex = 0;
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    pushText(template.slice(lastIndex, index));
+    lastIndex = index + match[0].length;
+
+    if (match[0] === '{{') {
+      pushText('{');
+      continue;
+    }
+    if (match[0] === '}}') {
+      pushText('}');
+      continue;
+    }
+
+    const tag = (match[1] ?? '').trim();
+    if (tag.startsWith('#if')) {
+      const name = tag.slice(3).trim();
+      if (!NAME_PATTERN.test(name)) {
+        throw new TemplateError(`Invalid condition "{${tag}}".`);
+      }
+      const node: Extract<TemplateNode, { type: 'if' }> = { type: 'if', name, then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (tag === 'else') {
+      const frame = stack[stack.length - 1];
+      if (!frame || frame.inElse) {
+        throw new TemplateError('"{else}" without a matching "{#if}".');
+      }
+      frame.inElse = true;
+    } else if (tag === '/if') {
+      if (!stack.pop()) {
+        throw new TemplateError('"{/if}" without a matching "{#if}".');
+      }
+    } else if (NAME_PATTERN.test(tag)) {
+      current().push({ type: 'variable', name: tag });
+    } else {
+      throw new TemplateError(`Invalid tag "{${tag}}". Use {{ and }} for literal braces.`);
+    }
+  }
+  pushText(template.slice(lastIndex));
+
+  if (stack.length > 0) {
+    throw new TemplateError(`Unclosed "{#if ${stack[stack.length - 1].node.name}}".`);
+  }
+  return root;
+}
+
+function collectVariables(nodes: TemplateNode[], names: Set<string>): Set<string> {
+  for (const node of nodes) {
+    if (node.type === 'variable') {
+      names.add(node.name);
+    } else if (node.type === 'if') {
+      names.add(node.name);
+      collectVariables(node.then, names);
+      collectVariables(node.otherwise, names);
+    }
+  }
+  return names;
+}
+
+function renderNodes(nodes: TemplateNode[], variables: Partial<PromptVariables>): string {
+  let output = '';
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output += node.value;
+    } else if (node.type === 'variable') {
+      output += variables[node.name as PromptVariable] ?? '';
+    } else {
+      const value = variables[node.name as PromptVariable];
+      output += renderNodes(value && value.trim() !== '' ? node.then : node.otherwise, variables);
+    }
+  }
+  return output;
+}
+
+/**
+ * Checks a template for syntax errors and unknown variables.
+ * @param {string} template - The template source.
+ * @param {readonly string[]} allowed - Variable names the template may reference.
+ * @returns {string | undefined} - An error message, or undefined if the template is valid.
+ */
+export function validateTemplate(template: string, allowed: readonly string[] = PROMPT_VARIABLES): string | undefined {
+  try {
+    const unknown = [...collectVariables(parse(template), new Set())].filter(name => !allowed.includes(name));
+    if (unknown.length > 0) {
+      return `Unknown variable(s): ${unknown.map(name => `{${name}}`).join(', ')}. Allowed: ${allowed.map(name => `{${name}}`).join(', ')}.`;
+    }
+    return undefined;
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      return error.message;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Renders a template. Throws a TemplateError if the template is invalid.
+ * @param {string} template - The template source.
+ * @param {Partial<PromptVariables>} variables - Values for the template variables.
+ * @returns {string}
+ */
+export function renderTemplate(template: string, variables: Partial<PromptVariables>): string {
+  const error = validateTemplate(template);
+  if (error) {
+    throw new TemplateError(error);
+  }
+  return renderNodes(parse(template), variables);
+}
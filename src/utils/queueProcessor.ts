@@ -1,36 +1,82 @@
-import { Context } from '@devvit/public-api';
-import { fetchArticleContent } from './scrapeUtils.js';
-import { summarizeContent } from './summaryUtils.js';
+import { Context, Post } from '@devvit/public-api';
+import { ArticleContent } from './scrapeUtils.js';
+import {
+    AuthError,
+    DailyQuotaError,
+    LeaseUnavailableError,
+    UnsupportedContentError,
+    callRedditApi,
+    retryPolicyOf,
+    toAppError,
+} from './errors.js';
+import { Lease, withPostClaim } from './lease.js';
+import { selectBatch, reschedulePost, removeFromQueue } from './postQueue.js';
+import { CachedSummary, cacheSummary, getCachedSummary, summaryCacheUrls } from './summaryCache.js';
+import { resolvePostSource, fetchSourceContent, recordPostSource, PostSource } from './postSource.js';
+import { getRecordedComment, upsertBotComment, summaryCommentKey, DistinguishError } from './commentUtils.js';
+import { checkPostFilters } from './postFilter.js';
+import { recordRecentError } from './dashboard.js';
+import { addDeadLetter, recordAttempt, getFirstAttemptAt, FailureDetails, FailureStage } from './deadLetter.js';
+import { getQueueRetrySchedule } from './retrySchedule.js';
+import { summarizeContent, getDomain, metadataVariables } from './summaryUtils.js';
+import { SummaryStyle, resolveSummaryStyle } from './summaryStyle.js';
+import { PromptVariables } from './promptTemplate.js';
+import { recordOutcome, timed } from './analytics.js';
 import { CONSTANTS } from '../config/constants.js';
-import { tokenBucketInstance, TokenBucket } from './tokenBucket.js';
-import { checkAndUpdateApiKey, validateApiKey, invalidateApiKeyValidation } from './apiUtils.js';
+import { getConfiguredApiKey, getConfiguredApiKeys, invalidateApiKeyValidation } from './apiUtils.js';
+import { getApiKeyHealth, syncApiKeyPool } from './apiKeyPool.js';
 
 type PartialContext = Partial<Context>;
 
+const QUEUE_LEASE = 'process_queue';
+
+/**
+ * Processes due posts from the queue. Only one run at a time holds the queue
+ * lease; runs that start while another is still going return at once.
+ */
 export async function processQueue(context: PartialContext): Promise<void> {
+    const lease = await Lease.acquire(context, QUEUE_LEASE, CONSTANTS.LEASE_TTL);
+    if (!lease) {
+        console.info('Another run is processing the post queue. Skipping.');
+        return;
+    }
+    try {
+        await processQueueWithLease(context, lease);
+    } finally {
+        await lease.release();
+    }
+}
+
+async function processQueueWithLease(context: PartialContext, lease: Lease): Promise<void> {
     console.info('Starting to process the post queue.');
 
-    const apiKey = await getApiKey(context);
-    if (!apiKey) {
+    const apiKeys = await getConfiguredApiKeys(context);
+    if (apiKeys.length === 0) {
         console.error('API key is missing. Cannot process posts.');
         return;
     }
+    const apiKey = apiKeys[0];
 
-    const isValid = await validateApiKey(apiKey, context);
-    if (!isValid) {
-        console.error('Invalid API key. Abandoning queue processing.');
-        throw new Error('InvalidApiKey');
+    const pool = await handleApiKeyUpdate(context);
+    if (pool.valid.length === 0) {
+        if (pool.invalid.length < apiKeys.length) {
+            // The provider couldn't be asked about some keys, which says nothing about them
+            console.warn('Could not check the API keys with the provider. Skipping queue processing.');
+            return;
+        }
+        console.error('No valid API key. Abandoning queue processing.');
+        throw new AuthError('None of the configured API keys is valid');
     }
 
-    // Check if the daily request limit has been reached
+    // Check if every key is at its daily request limit or set aside
     if (await isDailyLimitReached(context)) {
-        console.warn('Daily request limit reached. Skipping queue processing.');
+        console.warn('No API key has requests left. Skipping queue processing.');
         return;
     }
 
-    // Fetch post IDs from the queue
-    const postIds = await fetchPostIds(context);
-    if (!postIds || postIds.length === 0) {
+    // Pick this run's posts by priority lane
+    const batch = await selectBatch(context);
+    if (batch.length === 0) {
         console.info('No posts found in the queue to process.');
         return;
     }
@@ -38,51 +84,38 @@ export async function processQueue(context: PartialContext): Promise<void> {
     const settings = await getSettings(context);
     const includeScriptlessLink = settings.includeScriptlessLink;
 
-    // Process up to 10 posts at a time to prevent overwhelming the system
-    for (const post of postIds.slice(0, 10)) {
-        await processSinglePost(
-            post.member,
+    for (const post of batch) {
+        if (!lease.isHeld) {
+            console.warn('Lost the queue lease. Leaving the remaining posts to the next run.');
+            break;
+        }
+        const shouldContinue = await processSinglePost(
+            post.postId,
             context,
             apiKey,
             includeScriptlessLink
         );
+        if (!shouldContinue) {
+            console.warn('Stopping queue processing until the error is resolved.');
+            break;
+        }
     }
 
     console.info('Finished processing the post queue.');
 }
 
 async function isDailyLimitReached(context: PartialContext): Promise<boolean> {
-    const requestsToday = parseInt(
-        await context.redis?.get(TokenBucket.REQUESTS_TODAY_KEY) || '0'
-    );
-    return requestsToday >= tokenBucketInstance.requestsPerDay;
+    const keys = await getApiKeyHealth(context);
+    return keys.every(key => key.status !== 'available');
 }
 
-async function handleApiKeyUpdate(context: PartialContext): Promise<void> {
-    const apiKeyChanged = await checkAndUpdateApiKey(context);
-    if (apiKeyChanged) {
-        console.info('API key changed. Resetting token bucket and clearing authentication error flag.');
-        await tokenBucketInstance.resetBucket(context);
+async function handleApiKeyUpdate(context: PartialContext): Promise<{ added: number; valid: string[]; invalid: string[] }> {
+    const pool = await syncApiKeyPool(context);
+    if (pool.added > 0) {
+        console.info('API keys added. Clearing the authentication error flag.');
         await context.redis?.del('gemini_auth_error');
     }
-}
-
-async function getApiKey(context: PartialContext): Promise<string | null> {
-    const apiKey = (await context.settings?.get('api_key')) as string;
-    if (!apiKey) {
-        return null;
-    }
-    return apiKey;
-}
-
-async function fetchPostIds(context: PartialContext): Promise<{ member: string }[] | null> {
-    const now = Date.now();
-    const postIds = await context.redis?.zRange('post_queue', 0, now, { by: 'score' });
-    console.debug(`Fetched post IDs from queue: ${JSON.stringify(postIds)}`);
-
-    if (!postIds) return null;
-
-    return postIds.map(({ member }) => ({ member }));
+    return pool;
 }
 
 async function getSettings(context: PartialContext): Promise<{ automaticMode: boolean; includeScriptlessLink: boolean }> {
@@ -91,59 +124,202 @@ async function getSettings(context: PartialContext): Promise<{ automaticMode: bo
     return { automaticMode, includeScriptlessLink };
 }
 
+/**
+ * Fetches and summarizes one queued post under its claim. Posts claimed by a
+ * moderator action or a manual summary are left for a later run.
+ * @returns {Promise<boolean>} False when the error means the rest of the queue
+ * should wait, e.g. a rejected API key or the daily limit.
+ */
 async function processSinglePost(
     postId: string,
     context: PartialContext,
     apiKey: string,
     includeScriptlessLink: boolean
-): Promise<void> {
+): Promise<boolean> {
+    try {
+        return await withPostClaim(context, postId, () => processClaimedPost(postId, context, apiKey, includeScriptlessLink));
+    } catch (error) {
+        if (error instanceof LeaseUnavailableError) {
+            console.info(`Post ID ${postId} is being summarized elsewhere. Skipping.`);
+            return true;
+        }
+        throw error;
+    }
+}
+
+async function processClaimedPost(
+    postId: string,
+    context: PartialContext,
+    apiKey: string,
+    includeScriptlessLink: boolean
+): Promise<boolean> {
     console.info(`Processing post ID: ${postId}`);
+    let url: string | null = null;
+    let stage: FailureStage = 'fetch';
     try {
-        const post = await context.reddit?.getPostById(postId);
+        const post = await callRedditApi(`load post ${postId}`, async () => context.reddit?.getPostById(postId));
         if (!post) {
             console.warn(`Post ID ${postId} not found.`);
-            await context.redis?.zRem('post_queue', [postId]);
-            return;
+            await removeFromQueue(context, postId);
+            return true;
         }
 
-        const url = post.url;
-        console.debug(`Fetched URL for post ID ${postId}: ${url}`);
+        if (await getRecordedComment(context, summaryCommentKey(postId))) {
+            console.info(`Post ID ${postId} already has a summary. Removing from queue.`);
+            await removeFromQueue(context, postId);
+            return true;
+        }
 
-        const currentRetryCount = await getCurrentRetryCount(context, postId);
+        url = post.url;
+        await recordAttempt(context, postId);
 
-        let title: string, content: string, scriptlessUrl: string | null;
+        let source: PostSource;
+        let article: ArticleContent;
+        let style: SummaryStyle;
         try {
-            ({ title, content, scriptlessUrl } = await fetchArticleContent(url, context));
+            source = await resolvePostSource(post, context);
+            url = source.url;
+            console.debug(`Resolved ${source.kind} source for post ID ${postId}: ${source.url}`);
+
+            // Filters are checked again because settings, flair and NSFW marks may have changed since submission
+            const filterMatch = await checkPostFilters(post, context, source.selfText === null ? source.url : null);
+            if (filterMatch) {
+                console.info(`Skipping post ID ${postId}: matched filter rule ${filterMatch.rule} (${filterMatch.detail})`);
+                await removeFromQueue(context, postId);
+                await recordOutcome(context, 'skipped', source.url);
+                return true;
+            }
+
+            await recordPostSource(context, postId, source);
+            style = await resolveSummaryStyle(context, post, source.selfText === null ? getDomain(source.url) : '');
+            if (source.selfText === null) {
+                // A link summarized for an earlier post is reused without fetching it again
+                const cached = await getCachedSummary(context, summaryCacheUrls(source.url), style);
+                if (cached) {
+                    return submitCachedSummary(context, postId, cached, url);
+                }
+            }
+            article = await timed(context, 'fetch', () => fetchSourceContent(source, context));
         } catch (fetchError) {
             console.error(`Error fetching content for post ${postId}:`, fetchError);
-            await retryPost(context, postId, currentRetryCount);
-            return;
+            return handleProcessingError(context, postId, fetchError, { stage, url });
+        }
+        stage = 'summarize';
+
+        // Text posts are unique to their post, so only links are cached
+        const cacheUrls = source.selfText === null ? summaryCacheUrls(source.url, article.canonicalUrl) : [];
+        if (article.canonicalUrl) {
+            // The page may name a canonical URL that an earlier post of it was cached under
+            const cached = await getCachedSummary(context, cacheUrls, style);
+            if (cached) {
+                return submitCachedSummary(context, postId, cached, url);
+            }
         }
 
-        await generateAndSubmitSummary(context, postId, scriptlessUrl || url, title, content, apiKey, includeScriptlessLink);
+        const { title, content, scriptlessUrl } = article;
+        return generateAndSubmitSummary(
+            context,
+            postId,
+            source.url,
+            title,
+            content,
+            apiKey,
+            includeScriptlessLink ? scriptlessUrl : null,
+            summaryPromptVariables(post, source, article),
+            cacheUrls,
+            style
+        );
     } catch (error) {
         console.error(`Error processing post ${postId}:`, error);
-        await handleGeneralError(context, postId, error);
+        return handleProcessingError(context, postId, error, { stage, url });
     }
 }
 
+function summaryPromptVariables(post: Post, source: PostSource, article: ArticleContent): Partial<PromptVariables> {
+    return {
+        ...metadataVariables(article.metadata),
+        domain: getDomain(source.url),
+        post_title: post.title,
+        subreddit: post.subredditName,
+    };
+}
+
+/**
+ * Summarizes a post again with the configured API key and edits the existing
+ * summary comment, or posts one if there is none. Used by the "Regenerate
+ * summary" moderator action. The summary cache is not read, since a
+ * moderator asking for a new summary wants a new one, but it is updated.
+ * @param {string} postId - The post to summarize.
+ * @param {PartialContext} context - The application context.
+ * @throws {LeaseUnavailableError} When the post is being summarized elsewhere.
+ * @returns {Promise<'created' | 'updated'>}
+ */
+export async function regenerateSummary(postId: string, context: PartialContext): Promise<'created' | 'updated'> {
+    const apiKey = await getConfiguredApiKey(context);
+    if (apiKey === null) {
+        throw new AuthError('No API key is configured');
+    }
+
+    return withPostClaim(context, postId, async () => {
+        const post = await callRedditApi(`load post ${postId}`, async () => context.reddit?.getPostById(postId));
+        if (!post) {
+            throw new Error('PostNotFound');
+        }
+
+        const source = await resolvePostSource(post, context);
+        await recordPostSource(context, postId, source);
+        const article = await timed(context, 'fetch', () => fetchSourceContent(source, context));
+
+        const { includeScriptlessLink } = await getSettings(context);
+        const style = await resolveSummaryStyle(context, post, source.selfText === null ? getDomain(source.url) : '');
+        const summary = await timed(context, 'summarize', () => summarizeContent(
+            source.url,
+            article.title,
+            article.content,
+            context,
+            apiKey,
+            CONSTANTS.DEFAULT_TEMPERATURE,
+            includeScriptlessLink ? article.scriptlessUrl : null,
+            summaryPromptVariables(post, source, article),
+            { style }
+        ));
+        if (source.selfText === null) {
+            // The fresh summary replaces any cached one, so later posts of the link get it too
+            await cacheSummary(context, summaryCacheUrls(source.url, article.canonicalUrl), { summary, title: article.title, postId, style });
+        }
+
+        const status = await timed(context, 'comment', () => upsertBotComment(context, summaryCommentKey(postId), postId, summary, true));
+        // A regenerated post no longer needs its queued run
+        await removeFromQueue(context, postId);
+        await recordOutcome(context, 'summarized', source.url);
+        console.info(`Summary ${status} for post ID ${postId} on request`);
+        return status;
+    });
+}
+
 async function getCurrentRetryCount(context: PartialContext, postId: string): Promise<number> {
     const retryCount = await context.redis?.hGet(`retry:${postId}`, 'count') || '0';
     return parseInt(retryCount, 10);
 }
 
-async function retryPost(context: PartialContext, postId: string, currentRetryCount: number): Promise<void> {
-    if (currentRetryCount < CONSTANTS.MAX_RETRIES) {
-        console.warn(`Retrying post ID ${postId} later with delay.`);
-        await context.redis?.zAdd('post_queue', { 
-            member: postId, 
-            score: Date.now() + CONSTANTS.RETRY_INTERVAL + CONSTANTS.RETRY_DELAY 
-        });
+async function retryPost(
+    context: PartialContext,
+    postId: string,
+    currentRetryCount: number,
+    error: unknown,
+    failure: FailureDetails
+): Promise<void> {
+    const schedule = await getQueueRetrySchedule(context);
+    const decision = schedule.decide(error, currentRetryCount + 1, await getFirstAttemptAt(context, postId));
+    if (decision.retry) {
+        console.warn(`Retrying post ID ${postId} in ${Math.round(decision.delayMs / 1000)}s.`);
+        await reschedulePost(context, postId, Date.now() + decision.delayMs);
         await context.redis?.hSet(`retry:${postId}`, { count: (currentRetryCount + 1).toString() });
     } else {
-        console.warn(`Max retries reached for post ID ${postId}. Removing from queue.`);
-        await context.redis?.zRem('post_queue', [postId]);
-        await context.redis?.del(`retry:${postId}`);
+        console.warn(`Not retrying post ID ${postId}: ${decision.reason}. Removing from queue.`);
+        await addDeadLetter(context, postId, error, failure);
+        await removeFromQueue(context, postId);
+        await recordOutcome(context, 'failed', failure.url, error);
     }
 }
 
@@ -154,74 +330,108 @@ async function generateAndSubmitSummary(
     title: string,
     content: string,
     apiKey: string,
-    includeScriptlessLink: boolean
-): Promise<void> {
+    scriptlessUrl: string | null,
+    promptVariables: Partial<PromptVariables>,
+    cacheUrls: string[],
+    style: SummaryStyle
+): Promise<boolean> {
     console.debug(`Generating summary for post ID ${postId}`);
+    let stage: FailureStage = 'summarize';
     try {
-        const summary = await summarizeContent(url, title, content, context, apiKey, CONSTANTS.DEFAULT_TEMPERATURE, includeScriptlessLink);
+        const summary = await timed(context, 'summarize', () =>
+            summarizeContent(url, title, content, context, apiKey, CONSTANTS.DEFAULT_TEMPERATURE, scriptlessUrl, promptVariables, { style })
+        );
         console.debug(`Summary generated for post ID ${postId}`);
+        // Cached before commenting, so a retry after a failed comment doesn't pay for the summary again
+        await cacheSummary(context, cacheUrls, { summary, title, postId, style });
+        stage = 'comment';
 
         console.info(`Submitting summary comment for post ID ${postId}`);
-        const comment = await context.reddit?.submitComment({
-            id: postId,
-            text: summary,
-        });
-
-        if (comment) {
-            console.debug(`Making comment sticky for post ID ${postId}`);
-            await comment.distinguish(true);
-        } else {
-            console.warn(`Failed to submit comment for post ID ${postId}`);
-        }
+        await timed(context, 'comment', () => upsertBotComment(context, summaryCommentKey(postId), postId, summary, true));
 
         console.debug(`Removing post ID ${postId} from the queue.`);
-        await context.redis?.zRem('post_queue', [postId]);
-        await context.redis?.del(`retry:${postId}`);
+        await removeFromQueue(context, postId);
+        await recordOutcome(context, 'summarized', url);
         console.info(`Successfully processed post ID ${postId}`);
+        return true;
     } catch (summaryError) {
         console.error(`Error generating summary for post ${postId}:`, summaryError);
-        await handleSummaryError(context, postId, summaryError);
+        return handleProcessingError(context, postId, summaryError, {
+            stage: summaryError instanceof DistinguishError ? 'distinguish' : stage,
+            url,
+        });
     }
 }
 
-async function handleSummaryError(
-    context: PartialContext, 
-    postId: string, 
-    error: any
-): Promise<void> {
-    if (error?.message === 'GeminiAuthenticationError') {
-        console.error('CRITICAL: Gemini API authentication failed. Please check your API key and permissions immediately.');
-        await invalidateApiKeyValidation(context);
-        await context.redis?.set('gemini_auth_error', 'true');
-        throw new Error('GeminiAuthenticationError: Stopping queue processing');
-    } else if (isResolvableError(error)) {
-        await retryPost(context, postId, await getCurrentRetryCount(context, postId));
-    } else if (error?.message === 'DailyRequestLimitReached') {
-        console.warn('Daily request limit reached during processing. Stopping further processing.');
-    } else {
-        console.error(`Non-resolvable error encountered for post ID ${postId}. Removing from queue.`);
-        await context.redis?.zRem('post_queue', [postId]);
-        await context.redis?.del(`retry:${postId}`);
+/**
+ * Posts a summary from the cache. No model call is made, so nothing is
+ * charged to the token bucket.
+ */
+async function submitCachedSummary(
+    context: PartialContext,
+    postId: string,
+    cached: CachedSummary,
+    url: string | null
+): Promise<boolean> {
+    try {
+        await upsertBotComment(context, summaryCommentKey(postId), postId, cached.summary, true);
+        await removeFromQueue(context, postId);
+        await recordOutcome(context, 'cached', url);
+        console.info(`Posted the cached summary of post ID ${cached.postId} on post ID ${postId}`);
+        return true;
+    } catch (error) {
+        console.error(`Error posting the cached summary for post ${postId}:`, error);
+        return handleProcessingError(context, postId, error, {
+            stage: error instanceof DistinguishError ? 'distinguish' : 'comment',
+            url,
+        });
     }
 }
 
-async function handleGeneralError(
-    context: PartialContext, 
-    postId: string, 
-    error: any
-): Promise<void> {
-    if (isResolvableError(error)) {
-        await retryPost(context, postId, await getCurrentRetryCount(context, postId));
+/**
+ * Applies the retry policy declared by the error's class: skip unsupported
+ * content, requeue transient failures, dead-letter permanent ones, and leave
+ * the post queued when the whole queue has to wait.
+ * @returns {Promise<boolean>} False when queue processing should stop.
+ */
+async function handleProcessingError(
+    context: PartialContext,
+    postId: string,
+    error: unknown,
+    failure: FailureDetails
+): Promise<boolean> {
+    error = toAppError(error);
+    if (error instanceof UnsupportedContentError) {
+        // Retrying won't change what the link points to
+        console.info(`Skipping post ID ${postId}: ${error.reason}`);
+        await removeFromQueue(context, postId);
+        await recordOutcome(context, 'skipped', failure.url);
+        return true;
+    }
+
+    await recordRecentError(context, postId, error);
+    const policy = retryPolicyOf(error);
+    if (policy === 'halt') {
+        if (error instanceof DailyQuotaError) {
+            console.warn('Daily request limit reached during processing. Stopping further processing.');
+        } else if (error instanceof AuthError) {
+            console.error('CRITICAL: LLM provider authentication failed for every API key. Please check your API keys and permissions immediately.');
+            // Cached results are dropped so the keys are checked with the provider again
+            for (const apiKey of await getConfiguredApiKeys(context)) {
+                await invalidateApiKeyValidation(context, apiKey);
+            }
+            await context.redis?.set('gemini_auth_error', 'true');
+        }
+        return false;
+    }
+
+    if (policy === 'retry') {
+        await retryPost(context, postId, await getCurrentRetryCount(context, postId), error, failure);
     } else {
         console.error(`Non-resolvable error encountered for post ID ${postId}. Removing from queue.`);
-        await context.redis?.zRem('post_queue', [postId]);
-        await context.redis?.del(`retry:${postId}`);
+        await addDeadLetter(context, postId, error, failure);
+        await removeFromQueue(context, postId);
+        await recordOutcome(context, 'failed', failure.url, error);
     }
+    return true;
 }
-
-function isResolvableError(error: any): boolean {
-    const resolvableErrors = ['TimeoutError', 'ServiceUnavailable', 'RateLimitError'];
-    return resolvableErrors.includes(error.name) || 
-           (error.message && error.message.toLowerCase().includes('rate limit')) &&
-           error.message !== 'GeminiAuthenticationError';
-}
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { Context } from '@devvit/public-api';
+import { CONSTANTS } from '../config/constants.js';
+import { AppError, retryPolicyOf, toAppError } from './errors.js';
+
+type PartialContext = Partial<Context>;
+
+export interface RetryScheduleOptions {
+    // Attempts allowed, including the first, for retryable errors
+    maxAttempts: number;
+    // Overrides of maxAttempts, keyed by error class name
+    maxAttemptsByClass: Partial<Record<string, number>>;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    // No retry is scheduled past this long after the first attempt
+    maxAgeMs: number;
+}
+
+export type RetryDecision =
+    | { retry: true; delayMs: number }
+    | { retry: false; reason: string };
+
+/**
+ * Decides whether and when a failed operation is attempted again. The same
+ * rules serve the in-process fetch retries and the Redis-backed post queue,
+ * with different time scales.
+ */
+export class RetrySchedule {
+    readonly options: RetryScheduleOptions;
+
+    constructor(options: RetryScheduleOptions) {
+        this.options = options;
+    }
+
+    maxAttemptsFor(error: unknown): number {
+        const name = error instanceof Error ? error.name : '';
+        return this.options.maxAttemptsByClass[name] ?? this.options.maxAttempts;
+    }
+
+    /**
+     * Exponential backoff with jitter. The delay is drawn between half and
+     * all of baseDelayMs * 2^(attempt - 1), capped at maxDelayMs, so that
+     * posts that failed together don't all retry at the same moment.
+     * @param {number} attempt - The attempt that just failed, starting at 1.
+     */
+    backoff(attempt: number, random: () => number = Math.random): number {
+        const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** (attempt - 1));
+        return Math.round(ceiling / 2 + random() * (ceiling / 2));
+    }
+
+    /**
+     * @param {unknown} error - The error from the failed attempt.
+     * @param {number} attempt - The attempt that just failed, starting at 1.
+     * @param {number} firstAttemptAt - When the first attempt started.
+     * @returns {RetryDecision} The delay before the next attempt, or why there is none.
+     */
+    decide(error: unknown, attempt: number, firstAttemptAt: number, now: number = Date.now()): RetryDecision {
+        const typed = toAppError(error);
+        if (retryPolicyOf(typed) !== 'retry') {
+            return { retry: false, reason: 'the error is not retryable' };
+        }
+
+        const maxAttempts = this.maxAttemptsFor(typed);
+        if (attempt >= maxAttempts) {
+            return { retry: false, reason: `all ${maxAttempts} attempts failed` };
+        }
+
+        // A Retry-After hint is a lower bound; the backoff may still be longer
+        const retryAfterMs = typed instanceof AppError ? typed.retryAfterMs ?? 0 : 0;
+        const delayMs = Math.max(this.backoff(attempt), retryAfterMs);
+        if (now + delayMs - firstAttemptAt > this.options.maxAgeMs) {
+            return { retry: false, reason: `retrying in ${Math.round(delayMs / 1000)}s would exceed the maximum retry age` };
+        }
+        return { retry: true, delayMs };
+    }
+}
+
+/**
+ * Retries for a single fetch, made while the queue job waits. Anything that
+ * needs a longer wait is thrown to the queue, which retries the whole post.
+ */
+export const HTTP_RETRY_SCHEDULE = new RetrySchedule({
+    maxAttempts: CONSTANTS.HTTP_MAX_ATTEMPTS,
+    maxAttemptsByClass: {},
+    baseDelayMs: CONSTANTS.HTTP_RETRY_BASE_DELAY,
+    maxDelayMs: CONSTANTS.HTTP_RETRY_MAX_DELAY,
+    maxAgeMs: CONSTANTS.HTTP_RETRY_MAX_AGE,
+});
+
+/**
+ * Builds the schedule for requeueing failed posts from the retry settings.
+ * @param {PartialContext} context - The application context.
+ * @returns {Promise<RetrySchedule>}
+ */
+export async function getQueueRetrySchedule(context: PartialContext): Promise<RetrySchedule> {
+    const settings = await context.settings?.getAll();
+    const maxAttempts = (settings?.retry_max_attempts as number | undefined) || CONSTANTS.DEFAULT_RETRY_MAX_ATTEMPTS;
+    const baseDelayMinutes = (settings?.retry_base_delay_minutes as number | undefined) || CONSTANTS.DEFAULT_RETRY_BASE_DELAY_MINUTES;
+    const maxAgeHours = (settings?.retry_max_age_hours as number | undefined) || CONSTANTS.DEFAULT_RETRY_MAX_AGE_HOURS;
+
+    return new RetrySchedule({
+        maxAttempts,
+        maxAttemptsByClass: {
+            // Rate limits clear by waiting, so they get more attempts
+            QuotaError: maxAttempts * 2,
+            // A model that keeps answering with nothing is unlikely to change its mind
+            EmptyResponseError: Math.min(maxAttempts, 2),
+            MalformedOutputError: Math.min(maxAttempts, 2),
+        },
+        baseDelayMs: baseDelayMinutes * 60000,
+        maxDelayMs: CONSTANTS.RETRY_MAX_DELAY,
+        maxAgeMs: maxAgeHours * 3600000,
+    });
+}
@@ -0,0 +1,128 @@
+import { Context } from '@devvit/public-api';
+import { CONSTANTS } from '../config/constants.js';
+import { UpstreamClientError } from './errors.js';
+import { fetchWithRetry, readBodyWithLimit } from './httpFetch.js';
+
+type PartialContext = Partial<Context>;
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+// Sentinel stored in place of a robots.txt body when the whole site is off limits
+const DISALLOW_ALL = 'User-agent: *\nDisallow: /';
+
+/**
+ * Parses robots.txt and returns the rules of the group that applies to our
+ * user agent token, falling back to the "*" group (RFC 9309).
+ */
+function parseRules(robotsTxt: string, userAgentToken: string): RobotsRule[] {
+  const groups: { agents: string[]; rules: RobotsRule[] }[] = [];
+  let current: { agents: string[]; rules: RobotsRule[] } | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of robotsTxt.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+    } else if ((field === 'allow' || field === 'disallow') && current) {
+      // An empty Disallow means "allow everything" and adds no rule
+      if (value) {
+        current.rules.push({ allow: field === 'allow', pattern: value });
+      }
+      lastWasAgent = false;
+    } else {
+      lastWasAgent = false;
+    }
+  }
+
+  const token = userAgentToken.toLowerCase();
+  const specific = groups.filter(group => group.agents.some(agent => agent !== '*' && token.includes(agent)));
+  const matching = specific.length > 0 ? specific : groups.filter(group => group.agents.includes('*'));
+  return matching.flatMap(group => group.rules);
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Checks a path against robots.txt rules: the longest matching rule wins,
+ * and Allow wins a tie.
+ */
+export function isPathAllowed(robotsTxt: string, path: string, userAgentToken: string = CONSTANTS.ROBOTS_USER_AGENT_TOKEN): boolean {
+  let best: RobotsRule | null = null;
+  for (const rule of parseRules(robotsTxt, userAgentToken)) {
+    if (!patternToRegExp(rule.pattern).test(path)) continue;
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+  return best ? best.allow : true;
+}
+
+async function getRobotsTxt(origin: string, context: PartialContext): Promise<string> {
+  const cacheKey = `robots:${origin}`;
+  const cached = await context.redis?.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  let robotsTxt = '';
+  let ttl = CONSTANTS.ROBOTS_CACHE_TTL;
+  try {
+    const response = await fetchWithRetry(`${origin}/robots.txt`, {
+      headers: { 'User-Agent': CONSTANTS.USER_AGENT },
+    });
+    const bytes = await readBodyWithLimit(response, CONSTANTS.ROBOTS_MAX_LENGTH, true);
+    robotsTxt = new TextDecoder('utf-8').decode(bytes);
+  } catch (error) {
+    // A client error (e.g. 404) means there are no restrictions
+    if (!(error instanceof UpstreamClientError)) {
+      // RFC 9309: an unreachable robots.txt means the site is fully disallowed, until it is reachable again
+      console.warn(`Could not fetch robots.txt for ${origin}, assuming the site is disallowed:`, error);
+      robotsTxt = DISALLOW_ALL;
+      ttl = CONSTANTS.ROBOTS_UNREACHABLE_CACHE_TTL;
+    }
+  }
+
+  const expirationDate = new Date(Date.now() + ttl * 1000);
+  // Cache a comment rather than an empty string so "no restrictions" is remembered too
+  await context.redis?.set(cacheKey, robotsTxt || '#', { expiration: expirationDate });
+  return robotsTxt;
+}
+
+/**
+ * Checks whether the site's robots.txt allows us to fetch the given URL.
+ * robots.txt bodies are cached in Redis per origin.
+ * @param {string} url - The URL to check.
+ * @param {PartialContext} context - The application context.
+ * @returns {Promise<boolean>}
+ */
+export async function isAllowedByRobots(url: string, context: PartialContext): Promise<boolean> {
+  const { origin, pathname, search } = new URL(url);
+  const robotsTxt = await getRobotsTxt(origin, context);
+  return isPathAllowed(robotsTxt, `${pathname}${search}`);
+}
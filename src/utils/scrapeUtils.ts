@@ -1,137 +1,251 @@
 import * as cheerio from 'cheerio';
 import { Context } from '@devvit/public-api';
 import { CONSTANTS } from '../config/constants.js';
+import { ArticleMetadata, extractMainContent, extractMetadata } from './contentExtractor.js';
+import { isAllowedByRobots } from './robotsUtils.js';
+import { resolveCanonicalLink } from './canonicalUrl.js';
+import {
+    DocumentKind,
+    assertSupportedUrl,
+    classifyDocument,
+    extractJsonDocument,
+    extractMarkdownDocument,
+    extractPdfDocument,
+    extractTextDocument,
+} from './documentExtractors.js';
+import { ConfigurationError, ContentTooShortError, UnsupportedContentError, UpstreamClientError } from './errors.js';
+import { fetchWithRetry, isRedirect, readBodyWithLimit } from './httpFetch.js';
 
 type PartialContext = Partial<Context>;
 
+export interface ArticleContent {
+    title: string;
+    content: string;
+    scriptlessUrl: string | null;
+    metadata: ArticleMetadata;
+    // The page's rel=canonical URL, when it names one on its own site
+    canonicalUrl: string | null;
+}
+
+export type FetchStrategy = 'auto' | 'direct' | 'ladder';
+
+interface FetchedBody {
+    bytes: Uint8Array;
+    contentType: string;
+    finalUrl: string;
+    scriptlessUrl: string | null;
+}
+
+const ACCEPT_HEADER = 'text/html,application/xhtml+xml,application/xml;q=0.9,application/pdf,text/plain,text/markdown,application/json;q=0.8,*/*;q=0.5';
+
+const EMPTY_METADATA: ArticleMetadata = { author: null, publishedAt: null, siteName: null };
+
 /**
- * Fetches the content of the article from the given URL using the Ladder service.
+ * Fetches the content of the article from the given URL, either directly or
+ * through the Ladder service depending on the fetch strategy setting. HTML
+ * pages, PDFs, plain text, Markdown and JSON are supported; anything else
+ * throws an UnsupportedContentError, and pages with almost no text throw a
+ * ContentTooShortError.
  * @param {string} url - The URL of the article to fetch.
  * @param {PartialContext} context - The application context.
- * @returns {Promise<{ title: string; content: string; scriptlessUrl: string | null }>}
+ * @returns {Promise<ArticleContent>}
  */
 export async function fetchArticleContent(
     url: string,
     context: PartialContext
-): Promise<{ title: string; content: string; scriptlessUrl: string | null }> {
+): Promise<ArticleContent> {
     console.info(`Fetching article content from URL: ${url}`);
+    assertSupportedUrl(url);
+
+    const strategy = await resolveFetchStrategy(context);
+    console.debug(`Using fetch strategy: ${strategy}`);
+
+    const { bytes, contentType, finalUrl, scriptlessUrl } = strategy === 'ladder'
+        ? await fetchViaLadder(url, context)
+        : await fetchDirect(url, context);
+
+    const kind = classifyDocument(contentType, bytes, finalUrl);
+    console.debug(`Fetched ${bytes.byteLength} bytes of ${kind} content (${contentType || 'no content type'}).`);
+
+    const article = kind === 'html'
+        ? parseArticleHtml(decodeText(bytes, contentType), finalUrl, scriptlessUrl)
+        : extractDocument(kind, bytes, contentType, finalUrl, scriptlessUrl);
+
+    // Very short text is usually a paywall, a consent wall or a page rendered by JavaScript
+    const length = article.content.trim().length;
+    if (length < CONSTANTS.MIN_CONTENT_LENGTH) {
+        throw new ContentTooShortError(length);
+    }
+    return article;
+}
+
+function extractDocument(
+    kind: Exclude<DocumentKind, 'html'>,
+    bytes: Uint8Array,
+    contentType: string,
+    finalUrl: string,
+    scriptlessUrl: string | null
+): ArticleContent {
+    const document = kind === 'pdf'
+        ? extractPdfDocument(bytes, finalUrl)
+        : kind === 'markdown'
+            ? extractMarkdownDocument(decodeText(bytes, contentType), finalUrl)
+            : kind === 'json'
+                ? extractJsonDocument(decodeText(bytes, contentType), finalUrl)
+                : extractTextDocument(decodeText(bytes, contentType), finalUrl);
 
-    const ladderServiceUrl = await context.settings?.get('ladder_service_url') ?? '';
+    return {
+        title: document.title,
+        content: document.content,
+        scriptlessUrl,
+        metadata: EMPTY_METADATA,
+        canonicalUrl: null,
+    };
+}
+
+/**
+ * Resolves the configured fetch strategy. "auto" uses Ladder only when a
+ * Ladder service URL has been configured.
+ */
+async function resolveFetchStrategy(context: PartialContext): Promise<Exclude<FetchStrategy, 'auto'>> {
+    const selected = (await context.settings?.get<string[]>('fetch_strategy'))?.[0] as FetchStrategy | undefined;
+    if (selected === 'direct' || selected === 'ladder') {
+        return selected;
+    }
+    const ladderServiceUrl = ((await context.settings?.get<string>('ladder_service_url')) ?? '').trim();
+    return ladderServiceUrl ? 'ladder' : 'direct';
+}
+
+async function fetchViaLadder(
+    url: string,
+    context: PartialContext
+): Promise<FetchedBody> {
+    const ladderServiceUrl = ((await context.settings?.get<string>('ladder_service_url')) ?? '').trim().replace(/\/+$/, '');
     const ladderUsername = await context.settings?.get('ladder_username') ?? '';
     const ladderPassword = await context.settings?.get('ladder_password') ?? '';
 
+    if (!ladderServiceUrl) {
+        throw new ConfigurationError('ladder_service_url', 'The Ladder fetch strategy is selected but no Ladder service URL is set');
+    }
+
     const ladderUrl = `${ladderServiceUrl}/api/${encodeURIComponent(url)}`;
     console.debug(`Using Ladder service URL: ${ladderUrl}`);
 
     try {
         const response = await fetchWithRetry(ladderUrl, {
             headers: {
-                'User-Agent': 'Devvit AI Summaries App (https://developers.reddit.com/)',
-                'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+                'User-Agent': CONSTANTS.USER_AGENT,
+                'Accept': ACCEPT_HEADER,
                 'Accept-Language': 'en-US,en;q=0.5',
                 'Authorization': 'Basic ' + Buffer.from(`${ladderUsername}:${ladderPassword}`).toString('base64')
             }
         });
 
-        const html = await response.text();
-        console.debug('Fetched HTML content successfully.');
-
-        const $ = cheerio.load(html);
-        console.debug('Loaded HTML into Cheerio.');
-
-        // Try to extract title from meta tags first
-        let title = $('meta[property="og:title"]').attr('content') || 
-                    $('meta[name="twitter:title"]').attr('content') ||
-                    $('title').text() || 
-                    'No title found';
-        console.debug(`Extracted title: ${title}`);
-
-        // Try to extract content using various selectors
-        let content = '';
-        const contentSelectors = ['article', '.article-content', '.post-content', 'main', '.main-content'];
-        for (const selector of contentSelectors) {
-            content = $(selector).text();
-            if (content) {
-                console.debug(`Extracted content from ${selector} selector.`);
-                break;
-            }
+        return {
+            bytes: await readBodyWithLimit(response),
+            contentType: response.headers.get('content-type') ?? '',
+            finalUrl: url,
+            scriptlessUrl: ladderUrl,
+        };
+    } catch (error) {
+        console.error(`Error fetching article content from Ladder service URL ${ladderUrl}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Fetches the page itself, following redirects manually so that every hop is
+ * checked against robots.txt and the redirect limit.
+ */
+async function fetchDirect(
+    url: string,
+    context: PartialContext
+): Promise<FetchedBody> {
+    let currentUrl = url;
+    for (let hop = 0; hop <= CONSTANTS.MAX_REDIRECTS; hop++) {
+        const protocol = new URL(currentUrl).protocol;
+        if (protocol !== 'http:' && protocol !== 'https:') {
+            throw new UnsupportedContentError(`${protocol} link`);
         }
 
-        // Fallback to body if no content found
-        if (!content) {
-            content = $('body').text();
-            console.debug('Extracted content from <body> tag as fallback.');
+        if (!(await isAllowedByRobots(currentUrl, context))) {
+            console.warn(`robots.txt disallows fetching ${currentUrl}`);
+            throw new UnsupportedContentError('robots.txt disallows fetching this page');
         }
 
-        content = content.replace(/\s+/g, ' ').trim();
-        console.debug('Cleaned up the extracted content.');
+        const response = await fetchWithRetry(currentUrl, {
+            redirect: 'manual',
+            headers: {
+                'User-Agent': CONSTANTS.USER_AGENT,
+                'Accept': ACCEPT_HEADER,
+                'Accept-Language': 'en-US,en;q=0.5',
+            }
+        });
 
-        // Check if content is empty or very short
-        if (!content || content.length < 100) {
-            console.warn('Extracted content is empty or very short. Possible paywall or JavaScript-dependent content.');
+        if (isRedirect(response)) {
+            const location = response.headers.get('location');
+            if (!location) {
+                throw new UpstreamClientError(`HTTP error! status: ${response.status} without a Location header`, response.status);
+            }
+            currentUrl = new URL(location, currentUrl).toString();
+            console.debug(`Following redirect to ${currentUrl}`);
+            // Redirects to e.g. an image host are rejected before downloading them
+            assertSupportedUrl(currentUrl);
+            continue;
         }
 
         return {
-            title,
-            content,
-            scriptlessUrl: ladderUrl,
+            bytes: await readBodyWithLimit(response),
+            contentType: response.headers.get('content-type') ?? '',
+            finalUrl: currentUrl,
+            scriptlessUrl: null,
         };
-    } catch (error) {
-        console.error(`Error fetching article content from Ladder service URL ${ladderUrl}:`, error);
-        throw error;
     }
+
+    throw new UpstreamClientError(`More than ${CONSTANTS.MAX_REDIRECTS} redirects`);
 }
 
 /**
- * Retry mechanism with exponential backoff.
- * @param {string} url - The URL to fetch.
- * @param {RequestInit} options - Fetch options.
- * @param {number} retries - Number of retries left.
- * @param {number} backoff - Backoff time in milliseconds.
- * @returns {Promise<Response>}
+ * Decodes a text body using the charset from the Content-Type header,
+ * falling back to UTF-8 for missing or unknown charsets.
  */
-async function fetchWithRetry(url: string, options: RequestInit, retries: number = CONSTANTS.MAX_RETRIES, backoff: number = 300): Promise<Response> {
+function decodeText(bytes: Uint8Array, contentType: string): string {
+    const charset = contentType.match(/charset\s*=\s*"?([^";\s]+)/i)?.[1];
     try {
-        console.debug(`Attempting to fetch: ${url} | Retries left: ${retries}`);
-        
-        const fetchPromise = fetch(url, options);
-        
-        const timeoutPromise = new Promise((_, reject) => 
-            setTimeout(() => reject(new Error('Request timed out')), 30000) // 30 seconds timeout
-        );
-        
-        const response = await Promise.race([
-            fetchPromise.then(async (res) => {
-                if (!res.ok) {
-                    throw new Error(`HTTP error! status: ${res.status}`);
-                }
-                return res;
-            }),
-            timeoutPromise
-        ]) as Response;
-        
-        return response;
-    } catch (error) {
-        if (error instanceof TypeError) {
-            console.error(`Network error: The request was refused or the network is unavailable. Error: ${error.message}`);
-        } else if (error instanceof Error) {
-            console.error(`Fetch error: ${error.name} - ${error.message}`);
-        } else {
-            console.error(`Unknown error occurred during fetch: ${error}`);
-        }
-        
-        if (retries === 0) throw error;
-        console.debug(`Waiting for ${backoff}ms before retrying...`);
-        await new Promise(resolve => setTimeout(resolve, backoff));
-        return fetchWithRetry(url, options, retries - 1, backoff * 2);
+        return new TextDecoder(charset || 'utf-8').decode(bytes);
+    } catch {
+        return new TextDecoder('utf-8').decode(bytes);
     }
 }
 
-/**
- * Delays execution for the specified number of milliseconds.
- * @param {number} ms - Milliseconds to delay.
- * @returns {Promise<void>}
- */
-function delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+function parseArticleHtml(html: string, finalUrl: string, scriptlessUrl: string | null): ArticleContent {
+    const $ = cheerio.load(html);
+    console.debug('Loaded HTML into Cheerio.');
+
+    // Try to extract title from meta tags first
+    let title = $('meta[property="og:title"]').attr('content') || 
+                $('meta[name="twitter:title"]').attr('content') ||
+                $('title').text() || 
+                'No title found';
+    console.debug(`Extracted title: ${title}`);
+
+    // Metadata comes from <script> and <meta> tags, so read it before boilerplate is stripped
+    const metadata = extractMetadata($);
+    console.debug(`Extracted metadata: ${JSON.stringify(metadata)}`);
+
+    const canonicalUrl = resolveCanonicalLink(
+        $('link[rel="canonical"]').attr('href') || $('meta[property="og:url"]').attr('content'),
+        finalUrl
+    );
+
+    const content = extractMainContent($);
+    console.debug('Extracted main content.');
+
+    return {
+        title: title.trim(),
+        content,
+        scriptlessUrl,
+        metadata,
+        canonicalUrl,
+    };
 }
@@ -0,0 +1,127 @@
+import { Context } from '@devvit/public-api';
+import { CONSTANTS } from '../config/constants.js';
+import { canonicalizeUrl } from './canonicalUrl.js';
+import { sha256 } from './hashUtils.js';
+import { SummaryStyle } from './summaryStyle.js';
+
+type PartialContext = Partial<Context>;
+
+export interface CachedSummary {
+    summary: string;
+    title: string;
+    // Every canonical URL the entry is stored under
+    urls: string[];
+    // The post the summary was first generated for
+    postId: string;
+    // Entries from before style presets have none and are in the default style
+    style?: SummaryStyle;
+    createdAt: number;
+}
+
+function cacheKey(canonicalUrl: string): string {
+    return `summary_cache:${sha256(canonicalUrl)}`;
+}
+
+/**
+ * Lists the canonical URLs an article is known by: the link that was posted
+ * and, once the page has been fetched, the canonical URL the page names.
+ * @param {string} url - The posted link.
+ * @param {string | null} pageCanonicalUrl - The page's rel=canonical URL, if known.
+ * @returns {string[]} Distinct canonical URLs.
+ */
+export function summaryCacheUrls(url: string, pageCanonicalUrl: string | null = null): string[] {
+    const urls = [canonicalizeUrl(url)];
+    if (pageCanonicalUrl) urls.push(canonicalizeUrl(pageCanonicalUrl));
+    return [...new Set(urls)];
+}
+
+async function getCacheTtlHours(context: PartialContext): Promise<number> {
+    const ttlHours = await context.settings?.get('summary_cache_ttl_hours') as number | undefined;
+    return ttlHours ?? CONSTANTS.DEFAULT_SUMMARY_CACHE_TTL_HOURS;
+}
+
+/**
+ * Finds a stored summary for any of the given canonical URLs, written in the
+ * given style.
+ * @param {PartialContext} context - The application context.
+ * @param {string[]} urls - Canonical URLs of the article.
+ * @param {SummaryStyle} style - The style the summary must be in.
+ * @returns {Promise<CachedSummary | null>}
+ */
+export async function getCachedSummary(
+    context: PartialContext,
+    urls: string[],
+    style: SummaryStyle = 'default'
+): Promise<CachedSummary | null> {
+    if (await getCacheTtlHours(context) === 0) return null;
+
+    for (const url of urls) {
+        const raw = await context.redis?.get(cacheKey(url));
+        if (!raw) continue;
+        try {
+            const cached = JSON.parse(raw) as CachedSummary;
+            if ((cached.style ?? 'default') !== style) {
+                console.debug(`Cached summary for ${url} is in the ${cached.style ?? 'default'} style, not ${style}`);
+                continue;
+            }
+            console.info(`Summary cache hit for ${url} (first generated for post ID ${cached.postId})`);
+            return cached;
+        } catch (error) {
+            console.warn(`Discarding unreadable summary cache entry for ${url}:`, error);
+            await context.redis?.del(cacheKey(url));
+        }
+    }
+    return null;
+}
+
+/**
+ * Stores a generated summary under each canonical URL of the article, for
+ * the configured number of hours. A TTL of zero turns the cache off.
+ * @param {PartialContext} context - The application context.
+ * @param {string[]} urls - Canonical URLs of the article.
+ * @param {Omit<CachedSummary, 'urls' | 'createdAt'>} entry - The summary and where it came from.
+ */
+export async function cacheSummary(
+    context: PartialContext,
+    urls: string[],
+    entry: Omit<CachedSummary, 'urls' | 'createdAt'>
+): Promise<void> {
+    const ttlHours = await getCacheTtlHours(context);
+    if (ttlHours === 0 || urls.length === 0) return;
+
+    const cached: CachedSummary = { ...entry, urls, createdAt: Date.now() };
+    const value = JSON.stringify(cached);
+    const expiration = new Date(Date.now() + ttlHours * 3600000);
+    for (const url of urls) {
+        await context.redis?.set(cacheKey(url), value, { expiration });
+    }
+    console.debug(`Cached the summary of post ID ${entry.postId} under ${urls.join(', ')}`);
+}
+
+/**
+ * Deletes the cached summary for an article, under every URL it was stored
+ * under, so the next post of it is summarized afresh.
+ * @param {PartialContext} context - The application context.
+ * @param {string[]} urls - Canonical URLs of the article.
+ * @returns {Promise<number>} The number of cache keys deleted.
+ */
+export async function invalidateCachedSummary(context: PartialContext, urls: string[]): Promise<number> {
+    const keys = new Set<string>();
+    for (const url of urls) {
+        const raw = await context.redis?.get(cacheKey(url));
+        if (!raw) continue;
+        keys.add(cacheKey(url));
+        try {
+            for (const storedUrl of (JSON.parse(raw) as CachedSummary).urls) {
+                keys.add(cacheKey(storedUrl));
+            }
+        } catch {
+            // The key itself is still removed
+        }
+    }
+    if (keys.size > 0) {
+        await context.redis?.del(...keys);
+    }
+    console.info(`Invalidated ${keys.size} summary cache keys for ${urls.join(', ')}`);
+    return keys.size;
+}
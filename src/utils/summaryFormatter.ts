@@ -0,0 +1,215 @@
+import { canonicalizeUrl } from './canonicalUrl.js';
+import { MalformedOutputError } from './errors.js';
+
+/**
+ * Turns raw model output into a comment body Reddit renders the way the model
+ * meant it: Reddit-flavored markdown, no links the source didn't contain, and
+ * within the length limit.
+ */
+
+export interface FormatOptions {
+    maxLength: number;
+    // The text the summary was written from; links that appear in it are kept
+    sourceText: string;
+    // Further links the summary may contain, such as the summarized page itself
+    allowedUrls: string[];
+}
+
+// Below this many letters and digits, the output is markup without a summary
+const MIN_TEXT_LENGTH = 20;
+
+const URL_PATTERN = /https?:\/\/[^\s<>()[\]"'`]*[^\s<>()[\]"'`.,;:!?]/gi;
+// A markdown link, or failing that a bare URL
+const LINK_PATTERN = /\[([^\]\n]*)\]\(\s*<?(https?:\/\/[^\s()<>]+)>?(?:\s+"[^"]*")?\s*\)|https?:\/\/[^\s<>()[\]"'`]*[^\s<>()[\]"'`.,;:!?]/gi;
+const BULLET_PATTERN = /^(\s*)[*+•·▪‣◦–]\s+/;
+const LIST_ITEM_PATTERN = /^(\s*)(-|\d+\.)\s+/;
+const HEADING_PATTERN = /^#{1,6}\s/;
+
+/**
+ * Normalizes, checks and shortens a model response for posting.
+ * @param {string} text - The raw model output.
+ * @param {FormatOptions} options - The length limit and the links allowed in the output.
+ * @throws {MalformedOutputError} When nothing usable is left, or the markup is broken.
+ * @returns {string} The comment body.
+ */
+export function formatSummary(text: string, options: FormatOptions): string {
+    let formatted = normalizeRedditMarkdown(text);
+    formatted = stripUnsourcedLinks(formatted, options.sourceText, options.allowedUrls);
+    assertWellFormed(formatted);
+    return truncateOnSections(formatted, options.maxLength);
+}
+
+/**
+ * Rewrites common model markdown into the subset Reddit renders reliably:
+ * ATX headings with a space and blank lines around them, "-" bullets
+ * nested by four spaces per level, "1." numbering, no HTML, and escaped
+ * characters that Reddit would otherwise treat as markup.
+ */
+export function normalizeRedditMarkdown(text: string): string {
+    let normalized = text.replace(/\r\n?/g, '\n').trim();
+
+    // Models sometimes wrap the whole answer in a code block
+    const fenced = normalized.match(/^```[\w-]*\n([\s\S]*?)\n```$/);
+    if (fenced) normalized = fenced[1].trim();
+
+    normalized = normalized
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/?(strong|b)>/gi, '**')
+        .replace(/<\/?(em|i)>/gi, '*')
+        .replace(/<\/?[a-z][a-z0-9]*(\s[^<>]*)?>/gi, '');
+
+    const lines = normalized.split('\n');
+    const output: string[] = [];
+    let inCode = false;
+    let listIndents: number[] = [];
+
+    for (let index = 0; index < lines.length; index++) {
+        let line = lines[index].replace(/\s+$/, '');
+
+        if (/^\s*```/.test(line)) {
+            inCode = !inCode;
+            output.push(line);
+            continue;
+        }
+        if (inCode) {
+            output.push(line);
+            continue;
+        }
+
+        // Setext headings ("Title" over "====") become ATX headings
+        const next = lines[index + 1]?.trim() ?? '';
+        if (line.trim() !== '' && !LIST_ITEM_PATTERN.test(line) && /^(=+|-{2,})$/.test(next)) {
+            line = `${next.startsWith('=') ? '#' : '##'} ${line.trim()}`;
+            index++;
+        }
+
+        line = line
+            .replace(/^(#{1,6})(?=\p{L})/u, '$1 ')
+            .replace(/^(#{1,6}\s.*?)\s+#+$/, '$1')
+            .replace(BULLET_PATTERN, '$1- ')
+            .replace(/^(\s*)(\d+)\)\s+/, '$1$2. ');
+
+        // Reddit treats "#" at the start of a line as a heading even without a space
+        if (/^#/.test(line) && !HEADING_PATTERN.test(line)) line = `\\${line}`;
+        line = escapeInlineMarkup(line);
+
+        const listItem = line.match(LIST_ITEM_PATTERN);
+        if (listItem) {
+            const indent = listItem[1].replace(/\t/g, '    ').length;
+            while (listIndents.length > 0 && listIndents[listIndents.length - 1] > indent) listIndents.pop();
+            if (listIndents.length === 0 || listIndents[listIndents.length - 1] < indent) listIndents.push(indent);
+            line = `${'    '.repeat(listIndents.length - 1)}${line.trimStart()}`;
+
+            // A list directly under a paragraph is rendered as part of the paragraph
+            const previous = output[output.length - 1];
+            if (previous !== undefined && previous.trim() !== '' && !LIST_ITEM_PATTERN.test(previous)) {
+                output.push('');
+            }
+        } else if (line.trim() === '' || !/^\s/.test(line)) {
+            listIndents = [];
+        }
+
+        if (HEADING_PATTERN.test(line)) {
+            if (output.length > 0 && output[output.length - 1] !== '') output.push('');
+            output.push(line, '');
+            continue;
+        }
+        output.push(line);
+    }
+
+    return output.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Escapes Reddit's superscript caret and spoiler markers, which models use
+ * as plain characters, outside inline code.
+ */
+function escapeInlineMarkup(line: string): string {
+    return line
+        .split(/(`[^`]*`)/)
+        .map((part, index) => index % 2 === 1
+            ? part
+            : part.replace(/(?<!\\)\^/g, '\\^').replace(/>!/g, '>\\!').replace(/!</g, '!\\<'))
+        .join('');
+}
+
+/**
+ * Removes links the model made up. A link is kept only when its canonical
+ * URL appears in the source text or among the allowed URLs; otherwise a
+ * markdown link is reduced to its label and a bare URL is dropped.
+ */
+export function stripUnsourcedLinks(text: string, sourceText: string, allowedUrls: string[]): string {
+    const allowed = new Set([...allowedUrls, ...(sourceText.match(URL_PATTERN) ?? [])].map(canonicalizeUrl));
+
+    return text
+        .replace(LINK_PATTERN, (match: string, label: string | undefined, linkUrl: string | undefined) => {
+            const url = linkUrl ?? match;
+            if (allowed.has(canonicalizeUrl(url))) return match;
+            console.debug(`Removing a link that is not in the source: ${url}`);
+            return label !== undefined && label.trim() !== url ? label : '';
+        })
+        // Tidy up around removed URLs
+        .replace(/\(\s*\)|\[\s*\]/g, '')
+        .replace(/(\S)[ \t]+([.,])/g, '$1$2')
+        .replace(/(\S)[ \t]{2,}/g, '$1 ')
+        .replace(/[ \t]+$/gm, '');
+}
+
+function assertWellFormed(text: string): void {
+    const fences = text.split('\n').filter(line => /^\s*```/.test(line)).length;
+    if (fences % 2 !== 0) {
+        throw new MalformedOutputError('The summary leaves a code block open');
+    }
+    const textLength = text.replace(/[^\p{L}\p{N}]/gu, '').length;
+    if (textLength < MIN_TEXT_LENGTH) {
+        throw new MalformedOutputError(
+            textLength === 0 ? 'The summary is empty after formatting' : `The summary has only ${textLength} letters and digits`
+        );
+    }
+}
+
+/**
+ * Shortens text to the length limit by dropping whole sections from the end,
+ * a section being a heading and everything up to the next one. When even the
+ * first section is too long, whole paragraphs are kept instead, and as a last
+ * resort the text is cut at a line or word boundary.
+ */
+export function truncateOnSections(text: string, maxLength: number): string {
+    if (text.length <= maxLength) return text;
+
+    const sections = text.split(/\n(?=#{1,6}\s)/).map(section => section.trim());
+    const bySection = takeWhileFits(sections, maxLength);
+    if (hasBody(bySection)) {
+        console.info(`Summary truncated from ${text.length} to ${bySection.length} characters on a section boundary.`);
+        return bySection;
+    }
+
+    const paragraphs = text.split(/\n{2,}/).map(paragraph => paragraph.trim());
+    const byParagraph = takeWhileFits(paragraphs, maxLength);
+    if (hasBody(byParagraph)) {
+        console.info(`Summary truncated from ${text.length} to ${byParagraph.length} characters on a paragraph boundary.`);
+        return byParagraph;
+    }
+
+    const cut = text.slice(0, maxLength - 1);
+    const boundary = Math.max(cut.lastIndexOf('\n'), cut.lastIndexOf(' '));
+    return `${(boundary > maxLength / 2 ? cut.slice(0, boundary) : cut).trimEnd()}…`;
+}
+
+/**
+ * Joins blocks from the start for as long as they fit, leaving out headings
+ * that would end up with no text under them.
+ */
+function takeWhileFits(blocks: string[], maxLength: number): string {
+    let result = '';
+    for (const block of blocks) {
+        const candidate = result ? `${result}\n\n${block}` : block;
+        if (candidate.length > maxLength) break;
+        result = candidate;
+    }
+    return result.replace(/((^|\n\n)#{1,6}\s[^\n]*)+$/, '').trim();
+}
+
+function hasBody(text: string): boolean {
+    return text.split('\n').some(line => line.trim() !== '' && !HEADING_PATTERN.test(line));
+}
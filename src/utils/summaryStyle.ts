@@ -0,0 +1,154 @@
+import { Context, Post } from '@devvit/public-api';
+import { CONSTANTS } from '../config/constants.js';
+import { domainMatches } from './postFilter.js';
+
+type PartialContext = Partial<Context>;
+
+/**
+ * The named ways a summary can be written. 'default' follows the system
+ * prompt as configured.
+ */
+export type SummaryStyle = 'default' | 'tldr' | 'bullets' | 'key_quotes' | 'eli5' | 'qa';
+
+export interface StylePreset {
+    label: string;
+    // Appended to the system prompt; overrides what it says about format and length
+    promptFragment: string;
+    // Length budget in characters, for the output token estimate and the formatter
+    maxLength: number;
+    // Wraps the formatted model output; {summary} is replaced with it
+    outputTemplate: string;
+}
+
+export const STYLE_PRESETS: Record<SummaryStyle, StylePreset> = {
+    default: {
+        label: 'Standard (as the system prompt says)',
+        promptFragment: '',
+        maxLength: CONSTANTS.MAX_SUMMARY_LENGTH,
+        outputTemplate: '{summary}',
+    },
+    tldr: {
+        label: 'One-line TL;DR',
+        promptFragment: 'Instead of the format described above, answer with a single sentence of at most 40 words that states the main point of the content. Do not add a title, list, introduction or translation.',
+        maxLength: 400,
+        outputTemplate: '**TL;DR:** {summary}',
+    },
+    bullets: {
+        label: 'Bullet points',
+        promptFragment: 'Instead of the format described above, answer with 3 to 7 short bullet points, each starting with "- ", covering the key facts of the content. Do not add a title, introduction or conclusion.',
+        maxLength: 1500,
+        outputTemplate: '**Key points**\n\n{summary}',
+    },
+    key_quotes: {
+        label: 'Key quotes with attribution',
+        promptFragment: 'Instead of the format described above, answer with the 2 to 5 most important quotes from the content. Write each quote word for word as a markdown blockquote, followed by a line starting with "— " that names the person or organization the content attributes it to. Only use quotes that appear in the content, and do not add a title or commentary.',
+        maxLength: 2500,
+        outputTemplate: '**Key quotes**\n\n{summary}',
+    },
+    eli5: {
+        label: 'Explain like I\'m five',
+        promptFragment: 'Instead of the format described above, explain the content in two or three short paragraphs that a ten-year-old would understand, using plain words, everyday comparisons and no jargon. Do not add a title.',
+        maxLength: 1500,
+        outputTemplate: '**Explained simply**\n\n{summary}',
+    },
+    qa: {
+        label: 'FAQ-style Q&A',
+        promptFragment: 'Instead of the format described above, answer with the 3 to 6 questions a reader would most likely ask about the content. Write each question on its own line as "**Q: ...**", followed by a line with a short answer starting with "A: " that is based only on the content. Do not add a title.',
+        maxLength: 3000,
+        outputTemplate: '**Q&A**\n\n{summary}',
+    },
+};
+
+/**
+ * Options for the style select fields of the settings and forms.
+ */
+export const STYLE_OPTIONS = (Object.keys(STYLE_PRESETS) as SummaryStyle[])
+    .map(style => ({ label: STYLE_PRESETS[style].label, value: style }));
+
+export function isSummaryStyle(value: string | undefined): value is SummaryStyle {
+    return value !== undefined && Object.prototype.hasOwnProperty.call(STYLE_PRESETS, value);
+}
+
+/**
+ * Puts a formatted summary into the output template of its style.
+ */
+export function applyOutputTemplate(style: SummaryStyle, summary: string): string {
+    return STYLE_PRESETS[style].outputTemplate.replace('{summary}', () => summary);
+}
+
+/**
+ * How many characters the output template of a style adds around the summary.
+ */
+export function outputTemplateLength(style: SummaryStyle): number {
+    return STYLE_PRESETS[style].outputTemplate.replace('{summary}', '').length;
+}
+
+const RULE_PATTERN = /^\s*(.+?)\s*=\s*([a-z0-9_]+)\s*$/i;
+
+interface StyleRule {
+    pattern: string;
+    style: SummaryStyle;
+}
+
+/**
+ * Parses a style rules setting: one "pattern = style" rule per line.
+ * Malformed lines are rejected when the settings are saved and skipped here.
+ */
+export function parseStyleRules(value: string | undefined): StyleRule[] {
+    const rules: StyleRule[] = [];
+    for (const line of (value ?? '').split('\n')) {
+        const match = line.match(RULE_PATTERN);
+        const style = match?.[2].toLowerCase();
+        if (match && isSummaryStyle(style)) {
+            rules.push({ pattern: match[1].toLowerCase(), style });
+        }
+    }
+    return rules;
+}
+
+/**
+ * Checks a style rules setting, for use in onValidate.
+ * @returns {string | undefined} An error message, or undefined when every line is a rule.
+ */
+export function validateStyleRules(value: string | undefined): string | undefined {
+    for (const line of (value ?? '').split('\n')) {
+        if (line.trim() === '') continue;
+        const match = line.match(RULE_PATTERN);
+        if (!match) {
+            return `"${line.trim()}" is not a rule. Write one "pattern = style" rule per line.`;
+        }
+        if (!isSummaryStyle(match[2].toLowerCase())) {
+            return `Unknown style "${match[2]}". Use one of: ${Object.keys(STYLE_PRESETS).join(', ')}.`;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Picks the style to summarize a post in. A rule for the post's flair wins
+ * over a rule for the linked domain, which wins over the subreddit default.
+ * Within a setting, the first matching rule applies.
+ * @param {PartialContext} context - The application context.
+ * @param {Post} post - The post being summarized.
+ * @param {string} domain - The linked domain, or an empty string for text posts.
+ * @returns {Promise<SummaryStyle>}
+ */
+export async function resolveSummaryStyle(context: PartialContext, post: Post, domain: string): Promise<SummaryStyle> {
+    const settings = await context.settings?.getAll();
+
+    const flair = (post.flair?.text ?? '').trim().toLowerCase();
+    if (flair) {
+        const flairRule = parseStyleRules(settings?.summary_style_flairs as string | undefined)
+            .find(rule => rule.pattern === flair);
+        if (flairRule) return flairRule.style;
+    }
+
+    if (domain) {
+        const domainRule = parseStyleRules(settings?.summary_style_domains as string | undefined)
+            .find(rule => domainMatches(domain.toLowerCase(), rule.pattern));
+        if (domainRule) return domainRule.style;
+    }
+
+    const style = (settings?.summary_style as string[] | undefined)?.[0];
+    return isSummaryStyle(style) ? style : 'default';
+}
@@ -1,193 +1,429 @@
 import { Context } from '@devvit/public-api';
-import { TokenBucket, tokenBucketInstance } from './tokenBucket.js';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { TokenBucket } from './tokenBucket.js';
 import { CONSTANTS } from '../config/constants.js';
+import { getProvider, GenerationRequest, GenerationResult, LLMProvider, ProviderError } from '../providers/index.js';
+import { PromptVariables, renderTemplate, validateTemplate } from './promptTemplate.js';
+import { splitIntoChunks, truncateToTokens } from './chunkUtils.js';
+import { ArticleMetadata } from './contentExtractor.js';
+import { AuthError, QuotaError, UnsupportedContentError, toAppError } from './errors.js';
+import { formatSummary } from './summaryFormatter.js';
+import { recordTokens } from './analytics.js';
+import { PooledKey, quarantineApiKey, selectApiKeys } from './apiKeyPool.js';
+import { STYLE_PRESETS, SummaryStyle, applyOutputTemplate, outputTemplateLength } from './summaryStyle.js';
 
 type PartialContext = Partial<Context>;
 
-export async function summarizeContent(
-  url: string,
-  title: string,
-  content: string,
+/**
+ * Renders the subreddit's system prompt and user prompt template, falling back
+ * to the built-in defaults when a setting is blank or fails validation.
+ * @param {PartialContext} context - The application context.
+ * @param {PromptVariables} variables - Values for the template variables.
+ * @returns {Promise<{ systemPrompt: string; userPrompt: string }>}
+ */
+export async function buildPrompts(
   context: PartialContext,
-  apiKey: string,
-  temperature: number = CONSTANTS.DEFAULT_TEMPERATURE,
-  includeScriptlessLink: boolean = true
-): Promise<string> {
-  console.info('Starting summary generation...');
-  
-  // Estimate input tokens
-  const inputTokens = TokenBucket.estimateTokens(CONSTANTS.SUMMARY_SYSTEM_PROMPT + title + content);
-  
-  // Estimate potential output tokens (let's assume a maximum summary length)
-  const maxSummaryTokens = TokenBucket.estimateMaxTokens(CONSTANTS.MAX_SUMMARY_LENGTH);
-  
-  // Total estimated tokens
-  const totalEstimatedTokens = inputTokens + maxSummaryTokens;
-  
-  console.debug(`Estimated total tokens required: ${totalEstimatedTokens}`);
+  variables: PromptVariables
+): Promise<{ systemPrompt: string; userPrompt: string }> {
+  const systemTemplate = await getTemplateSetting(context, 'system_prompt', CONSTANTS.SUMMARY_SYSTEM_PROMPT);
+  const userTemplate = await getTemplateSetting(context, 'user_prompt_template', CONSTANTS.SUMMARIZING_PROMPT);
+  return {
+    systemPrompt: renderTemplate(systemTemplate, variables),
+    userPrompt: renderTemplate(userTemplate, variables),
+  };
+}
 
-  // Check for available request slot with a timeout
-  console.debug('Checking for available request slot...');
-  try {
-    const requestSlotAvailable = await tokenBucketInstance.checkRequestAvailability(context, CONSTANTS.REQUEST_SLOT_TIMEOUT);
-    if (!requestSlotAvailable) {
-      console.warn('Request slot not available within timeout period.');
-      throw new Error('RequestSlotUnavailable');
-    }
-  } catch (error) {
-    if (error instanceof Error && error.message === 'DailyRequestLimitReached') {
-      throw error; // Propagate this error to be handled in processQueue
-    }
-    console.warn('Request slot not available within timeout period.');
-    throw new Error('RequestSlotUnavailable');
+async function getTemplateSetting(context: PartialContext, name: string, fallback: string): Promise<string> {
+  const template = ((await context.settings?.get<string>(name)) ?? '').trim();
+  if (!template) {
+    return fallback;
   }
-
-  // Wait for available tokens with a timeout
-  console.debug('Waiting for available tokens...');
-  const tokensAvailable = await tokenBucketInstance.waitForTokens(totalEstimatedTokens, context, CONSTANTS.TOKEN_WAIT_TIMEOUT);
-  if (!tokensAvailable) {
-    console.warn('Tokens not available within timeout period.');
-    throw new Error('TokensUnavailable');
+  const error = validateTemplate(template);
+  if (error) {
+    console.warn(`Ignoring invalid ${name} setting: ${error}`);
+    return fallback;
   }
+  return template;
+}
 
+/**
+ * Returns the hostname of a URL without a leading "www.", or an empty string if it can't be parsed.
+ */
+export function getDomain(url: string): string {
   try {
-    //const summary = await generateSummaryWithGemini(url, title, content, apiKey, temperature);
-    const summary = await generateSummaryWithFetch(url, title, content, apiKey, temperature);
-    
-    // Release unused tokens
-    const actualOutputTokens = TokenBucket.estimateTokens(summary);
-    const unusedTokens = maxSummaryTokens - actualOutputTokens;
-    if (unusedTokens > 0) {
-      await tokenBucketInstance.releaseTokens(unusedTokens, context);
-    }
-
-    if (includeScriptlessLink) {
-      return `${summary}\n\nScriptless version: ${url}`;
-    }
-    
-    return summary;
-  } catch (error) {
-    // Release all reserved output tokens on error
-    await tokenBucketInstance.releaseTokens(maxSummaryTokens, context);
-    throw error;
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
   }
 }
 
-async function generateSummaryWithGemini(
+/**
+ * Fills in the template variables that callers don't have to supply explicitly.
+ */
+export function resolvePromptVariables(
   url: string,
   title: string,
   content: string,
-  apiKey: string,
-  temperature: number
-): Promise<string> {
-  console.debug('Calling Gemini API for summary generation...');
-  try {
-    const model = new GoogleGenerativeAI(apiKey);
-    const geminiModel = model.getGenerativeModel({ model: "gemini-1.5-flash" });
+  extra: Partial<PromptVariables> = {}
+): PromptVariables {
+  return {
+    url,
+    title,
+    content,
+    domain: extra.domain || getDomain(url),
+    post_title: extra.post_title ?? '',
+    subreddit: extra.subreddit ?? '',
+    author: extra.author ?? '',
+    published: extra.published ?? '',
+    site_name: extra.site_name ?? '',
+  };
+}
 
-    const systemPrompt = CONSTANTS.SUMMARY_SYSTEM_PROMPT;
-    const summarizingPrompt = `Summarize the following web content from ${url}:
-Title: """${title}"""
-Text: """${content}"""`;
+/**
+ * Maps scraped article metadata onto the corresponding template variables.
+ */
+export function metadataVariables(metadata: ArticleMetadata): Partial<PromptVariables> {
+  return {
+    author: metadata.author ?? '',
+    published: metadata.publishedAt ?? '',
+    site_name: metadata.siteName ?? '',
+  };
+}
 
-    const prompt = `${systemPrompt}\n\n${summarizingPrompt}`;
-    console.debug(`Prompt for Gemini: ${prompt}`);
-    
-    const result = await geminiModel.generateContent({
-      contents: [{ role: 'user', parts: [{ text: prompt }] }],
-      generationConfig: {
-        temperature: temperature,
-      },
-    });
-    
-    const response = await result.response;
-    const summary = response.text();
+export type LongContentStrategy = 'truncate' | 'map_reduce' | 'skip';
 
-    if (!summary) {
-      console.error('Gemini API returned an empty summary.');
-      throw new Error('Failed to generate summary');
-    }
+interface LengthSettings {
+  maxInputTokens: number;
+  chunkTokens: number;
+  strategy: LongContentStrategy;
+}
 
-    console.debug('Received summary from Gemini API.');
-    return summary + '\n\n*I am an AI-powered bot and this summary was created automatically. Questions or concerns? Contact us. Want AI summaries for your own sub? Get them here*'; //TODO: add links
-  } catch (error) {
-    if (error instanceof Error && error.message.includes('PERMISSION_DENIED')) {
-      console.error('Gemini API authentication failed. Please check your API key and permissions:', error);
-      throw new Error('GeminiAuthenticationError');
+async function getLengthSettings(context: PartialContext): Promise<LengthSettings> {
+  const maxInputTokens = (await context.settings?.get<number>('max_input_tokens')) || CONSTANTS.DEFAULT_MAX_INPUT_TOKENS;
+  const chunkTokens = (await context.settings?.get<number>('chunk_tokens')) || CONSTANTS.DEFAULT_CHUNK_TOKENS;
+  const strategy = (await context.settings?.get<string[]>('long_content_strategy'))?.[0] as LongContentStrategy | undefined;
+  return { maxInputTokens, chunkTokens, strategy: strategy ?? 'map_reduce' };
+}
+
+/**
+ * Choices a moderator can make for a single manual summary. Anything left
+ * out follows the app settings.
+ */
+export interface SummaryOptions {
+  model?: string;
+  // Maximum summary length in characters, at most MAX_SUMMARY_LENGTH
+  maxLength?: number;
+  // Write the summary in this language only, instead of what the system prompt asks for
+  language?: string;
+  // Add a link to the summarized page under the summary
+  includeSourceLink?: boolean;
+  // The style preset; its length budget caps maxLength
+  style?: SummaryStyle;
+}
+
+export interface SummaryPrompts {
+  systemPrompt: string;
+  userPrompt: string;
+  // The summary length limit, after the style's budget
+  maxLength: number;
+}
+
+/**
+ * Assembles the prompts of a summary exactly as they are sent to the model:
+ * applies the long content strategy, renders the templates, and appends the
+ * style's instructions and any language and length instructions.
+ * @param {PartialContext} context - The application context.
+ * @param {string} url - The summarized link.
+ * @param {string} title - The page title.
+ * @param {string} content - The extracted content.
+ * @param {Partial<PromptVariables>} promptVariables - Further template variables.
+ * @param {SummaryOptions} options - The style and per-run choices.
+ * @param {((content: string) => Promise<string>) | null} condense - Writes the map-reduce notes
+ * for content over the input limit. Without it, as in the prompt preview, a placeholder
+ * stands in for the notes.
+ * @throws {UnsupportedContentError} When the content is over the limit and the strategy is to skip it.
+ * @returns {Promise<SummaryPrompts>}
+ */
+export async function buildSummaryPrompts(
+  context: PartialContext,
+  url: string,
+  title: string,
+  content: string,
+  promptVariables: Partial<PromptVariables>,
+  options: SummaryOptions,
+  condense: ((content: string) => Promise<string>) | null
+): Promise<SummaryPrompts> {
+  const preset = STYLE_PRESETS[options.style ?? 'default'];
+  const maxLength = Math.min(options.maxLength ?? CONSTANTS.MAX_SUMMARY_LENGTH, preset.maxLength, CONSTANTS.MAX_SUMMARY_LENGTH);
+  const { maxInputTokens, chunkTokens, strategy } = await getLengthSettings(context);
+
+  const contentTokens = TokenBucket.estimateTokens(content);
+  let summaryContent = content;
+  if (contentTokens > maxInputTokens) {
+    console.info(`Content is ~${contentTokens} tokens, over the ${maxInputTokens} token cap. Applying strategy: ${strategy}`);
+    if (strategy === 'skip') {
+      throw new UnsupportedContentError(`content is over the ${maxInputTokens} token input limit`);
+    } else if (strategy === 'truncate') {
+      summaryContent = truncateToTokens(content, maxInputTokens);
+    } else if (condense) {
+      summaryContent = await condense(content);
     } else {
-      console.error('Gemini summary generation failed:', error);
-      throw error; // Propagate the error to be handled in processQueue
+      const parts = Math.min(splitIntoChunks(content, chunkTokens).length, CONSTANTS.MAX_MAP_REDUCE_CHUNKS);
+      summaryContent = `[Notes the model writes on each of the ${parts} parts of the content]`;
     }
   }
+
+  const prompts = await buildPrompts(
+    context,
+    resolvePromptVariables(url, title, summaryContent, promptVariables)
+  );
+  let systemPrompt = prompts.systemPrompt;
+  if (preset.promptFragment) {
+    systemPrompt += `\n\n${preset.promptFragment}`;
+  }
+  if (options.language) {
+    systemPrompt += `\n\n${CONSTANTS.SUMMARY_LANGUAGE_INSTRUCTION.replace('{language}', options.language)}`;
+  }
+  if (maxLength < CONSTANTS.MAX_SUMMARY_LENGTH) {
+    systemPrompt += `\n\n${CONSTANTS.SUMMARY_LENGTH_INSTRUCTION.replace('{length}', maxLength.toLocaleString('en-US'))}`;
+  }
+  return { systemPrompt, userPrompt: prompts.userPrompt, maxLength };
 }
 
-// New function to generate summary using fetch
-async function generateSummaryWithFetch(
+export async function summarizeContent(
   url: string,
   title: string,
   content: string,
+  context: PartialContext,
+  apiKey: string,
+  temperature: number = CONSTANTS.DEFAULT_TEMPERATURE,
+  scriptlessUrl: string | null = null,
+  promptVariables: Partial<PromptVariables> = {},
+  options: SummaryOptions = {}
+): Promise<string> {
+  console.info('Starting summary generation...');
+
+  const provider = await getProvider(context, options.model);
+  const style = options.style ?? 'default';
+  const { systemPrompt, userPrompt, maxLength } = await buildSummaryPrompts(
+    context,
+    url,
+    title,
+    content,
+    promptVariables,
+    options,
+    longContent => summarizeChunks(context, provider, apiKey, title, longContent, temperature)
+  );
+  console.debug(`Prompt for ${provider.name}: ${userPrompt}`);
+
+  const result = await generateMetered(
+    context,
+    provider,
+    { systemPrompt, userPrompt, temperature },
+    apiKey,
+    TokenBucket.estimateMaxTokens(maxLength, content)
+  );
+
+  const links = [
+    options.includeSourceLink ? `Source: ${url}` : '',
+    // Only proxy fetch strategies produce a scriptless copy worth linking to
+    scriptlessUrl ? `Scriptless version: ${scriptlessUrl}` : '',
+  ].filter(Boolean);
+  const suffix = `\n\n${CONSTANTS.BOT_FOOTER}${links.map(link => `\n\n${link}`).join('')}`;
+  const body = formatSummary(result.text, {
+    maxLength: Math.min(maxLength, CONSTANTS.REDDIT_COMMENT_MAX_LENGTH - suffix.length - outputTemplateLength(style)),
+    sourceText: content,
+    allowedUrls: [url],
+  });
+  return `${applyOutputTemplate(style, body)}${suffix}`;
+}
+
+/**
+ * Produces a neutral digest of a comment thread. The comments are expected
+ * highest scored first, so truncating to the input cap drops the least
+ * upvoted ones. Metered through the same token bucket as link summaries.
+ * @param {string} comments - The formatted comments.
+ * @param {PartialContext} context - The application context.
+ * @param {string} apiKey - The provider API key.
+ * @param {Partial<PromptVariables>} promptVariables - url, post_title and subreddit of the post.
+ * @throws {MalformedOutputError} When the model's answer is unusable.
+ * @returns {Promise<string>} The digest, formatted for Reddit, without a footer.
+ */
+export async function summarizeDiscussion(
+  comments: string,
+  context: PartialContext,
+  apiKey: string,
+  promptVariables: Partial<PromptVariables> = {}
+): Promise<string> {
+  console.info('Starting discussion summary generation...');
+
+  const provider = await getProvider(context);
+  const { maxInputTokens } = await getLengthSettings(context);
+  const content = truncateToTokens(comments, maxInputTokens);
+
+  const userPrompt = renderTemplate(
+    CONSTANTS.DISCUSSION_PROMPT,
+    resolvePromptVariables(promptVariables.url ?? '', promptVariables.post_title ?? '', content, promptVariables)
+  );
+
+  const result = await generateMetered(
+    context,
+    provider,
+    { systemPrompt: CONSTANTS.DISCUSSION_SYSTEM_PROMPT, userPrompt, temperature: CONSTANTS.DISCUSSION_TEMPERATURE },
+    apiKey,
+    TokenBucket.estimateMaxTokens(CONSTANTS.DISCUSSION_SUMMARY_MAX_LENGTH, content)
+  );
+  return formatSummary(result.text, {
+    maxLength: CONSTANTS.DISCUSSION_SUMMARY_MAX_LENGTH,
+    sourceText: content,
+    allowedUrls: promptVariables.url ? [promptVariables.url] : [],
+  });
+}
+
+/**
+ * Map step of map-reduce summarization: condenses each chunk of a long article
+ * into notes that are then fed to the regular prompt in place of the full text.
+ */
+async function summarizeChunks(
+  context: PartialContext,
+  provider: LLMProvider,
   apiKey: string,
+  title: string,
+  content: string,
   temperature: number
 ): Promise<string> {
-  console.debug('Calling Gemini API for summary generation using fetch...');
-  try {
-    const summarizingPrompt = CONSTANTS.SUMMARIZING_PROMPT
-      .replace('{url}', url)
-      .replace('{title}', title)
-      .replace('{content}', content);
-
-    const prompt = `${CONSTANTS.SUMMARY_SYSTEM_PROMPT}\n\n${summarizingPrompt}`;
-    console.debug(`Prompt for Gemini (fetch): ${prompt}`);
-
-    const response = await fetch(`${CONSTANTS.GEMINI_API_GENERATE_CONTENT_ENDPOINT}?key=${apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [
-              { text: prompt }
-            ]
-          }
-        ],
-        generationConfig: {
-          temperature: temperature,
-        },
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error('Gemini API error:', errorData);
-      throw new Error(`HTTP error! status: ${response.status}, message: ${errorData.error?.message || 'Unknown error'}`);
-    }
+  const { chunkTokens } = await getLengthSettings(context);
+  let chunks = splitIntoChunks(content, chunkTokens);
+  if (chunks.length > CONSTANTS.MAX_MAP_REDUCE_CHUNKS) {
+    console.warn(`Content split into ${chunks.length} chunks; only the first ${CONSTANTS.MAX_MAP_REDUCE_CHUNKS} will be summarized.`);
+    chunks = chunks.slice(0, CONSTANTS.MAX_MAP_REDUCE_CHUNKS);
+  }
 
-    const result = await response.json();
-    const summary = result.candidates[0].content.parts[0].text;
+  const maxChunkSummaryTokens = TokenBucket.estimateMaxTokens(CONSTANTS.CHUNK_SUMMARY_MAX_LENGTH, content);
+  const partials: string[] = [];
+  for (const [index, chunk] of chunks.entries()) {
+    console.debug(`Summarizing chunk ${index + 1} of ${chunks.length}...`);
+    const userPrompt = `Part ${index + 1} of ${chunks.length}.\n${renderTemplate(CONSTANTS.CHUNK_PROMPT, { title, content: chunk })}`;
+    const result = await generateMetered(
+      context,
+      provider,
+      { systemPrompt: CONSTANTS.CHUNK_SYSTEM_PROMPT, userPrompt, temperature },
+      apiKey,
+      maxChunkSummaryTokens
+    );
+    partials.push(`Part ${index + 1}:\n${result.text.trim()}`);
+  }
 
-    if (!summary) {
-      console.error('Gemini API returned an empty summary.');
-      throw new Error('Failed to generate summary');
-    }
+  return partials.join('\n\n');
+}
 
-    console.debug('Received summary from Gemini API using fetch.');
-    return summary + '\n\n' + CONSTANTS.BOT_FOOTER;
-  } catch (error) {
-    if (error instanceof Error) {
-      console.error('Gemini summary generation failed (fetch):', error.message);
-      if (error.message.includes('401')) {
-        throw new Error('GeminiAuthenticationError');
+/**
+ * Performs a single model call under the token bucket of an API key: reserves
+ * a request slot and enough tokens for the input plus the expected output in
+ * one step, then charges the bucket for what the call actually used. A key of
+ * the pool that the provider rejects or throttles is quarantined and the call
+ * is tried again with the next key. Keys at their per-minute limit are passed
+ * over without waiting; only when every key is busy does the call wait, once,
+ * for a slot.
+ */
+async function generateMetered(
+  context: PartialContext,
+  provider: LLMProvider,
+  request: GenerationRequest,
+  apiKey: string,
+  maxOutputTokens: number
+): Promise<GenerationResult> {
+  const keys = await selectApiKeys(context, apiKey);
+
+  // Count input tokens, exactly when the provider supports it
+  const inputTokens = await countInputTokens(provider, request, keys[0].apiKey);
+  
+  // Total estimated tokens
+  const totalEstimatedTokens = inputTokens + maxOutputTokens;
+  
+  console.debug(`Estimated total tokens required: ${totalEstimatedTokens}`);
+
+  let lastError: unknown;
+  const busy: PooledKey[] = [];
+  for (const key of keys) {
+    try {
+      // Throws DailyQuotaError at the daily limit
+      if (!(await key.bucket.reserve(totalEstimatedTokens, context, 0))) {
+        busy.push(key);
+        continue;
       }
-    } else {
-      console.error('Gemini summary generation failed (fetch):', error);
+      return await generateWithKey(context, provider, request, key, inputTokens, maxOutputTokens);
+    } catch (error) {
+      // A rejected key, or one out of requests or tokens, leaves the others usable
+      if (!(error instanceof AuthError || error instanceof QuotaError)) {
+        throw error;
+      }
+      console.warn(`API key ${key.id} can't be used right now: ${error.message}`);
+      lastError = error;
     }
-    throw error; // Propagate the error to be handled in processQueue
   }
+
+  if (busy.length > 0) {
+    const [key] = busy;
+    console.debug(`Every usable API key is busy. Waiting for a request slot and tokens on key ${key.id}...`);
+    if (await key.bucket.reserve(totalEstimatedTokens, context, CONSTANTS.REQUEST_SLOT_TIMEOUT)) {
+      return generateWithKey(context, provider, request, key, inputTokens, maxOutputTokens);
+    }
+    console.warn('Request slot or tokens not available within timeout period.');
+    lastError = new QuotaError('Request slot or tokens not available within timeout period');
+  }
+  throw lastError;
 }
 
-// TODO: Add a way to toggle between SDK and fetch methods
-// For now, you can manually switch between generateSummaryWithGemini and generateSummaryWithFetch in the summarizeContent function
+/**
+ * Makes the model call on a key whose bucket already holds the reservation.
+ */
+async function generateWithKey(
+  context: PartialContext,
+  provider: LLMProvider,
+  request: GenerationRequest,
+  key: PooledKey,
+  inputTokens: number,
+  maxOutputTokens: number
+): Promise<GenerationResult> {
+  const totalEstimatedTokens = inputTokens + maxOutputTokens;
 
+  try {
+    const result = await provider.generate(request, key.apiKey);
+    console.debug(`Received response from ${provider.name} (${result.model}).`);
+    
+    // Charge what the call actually used, preferring the usage reported by the provider
+    const actualTokens = result.usage?.totalTokens || inputTokens + TokenBucket.estimateTokens(result.text);
+    await key.bucket.reconcileUsage(totalEstimatedTokens, actualTokens, context);
+    await recordTokens(
+      context,
+      result.usage?.inputTokens ?? inputTokens,
+      result.usage?.outputTokens ?? TokenBucket.estimateTokens(result.text)
+    );
+    return result;
+  } catch (error) {
+    if (error instanceof ProviderError) {
+      console.error(`Summary generation failed (${error.provider}, ${error.kind}):`, error.message);
+    }
+    // Release all reserved output tokens on error
+    await key.bucket.releaseTokens(maxOutputTokens, context);
+    const typed = toAppError(error);
+    // Only the provider's 401, 403 and 429 answers set the key aside
+    await quarantineApiKey(context, key, typed);
+    throw typed;
+  }
+}
+
+async function countInputTokens(provider: LLMProvider, request: GenerationRequest, apiKey: string): Promise<number> {
+  const estimate = TokenBucket.estimateTokens(request.systemPrompt + request.userPrompt);
+  if (!provider.countTokens) {
+    return estimate;
+  }
+  try {
+    const counted = await provider.countTokens(request, apiKey);
+    console.debug(`Counted ${counted} input tokens via ${provider.name} (estimate was ${estimate}).`);
+    return counted || estimate;
+  } catch (error) {
+    console.warn(`Token counting via ${provider.name} failed, using estimate:`, error);
+    return estimate;
+  }
+}
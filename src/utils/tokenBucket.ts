@@ -1,126 +1,318 @@
-import { Context } from '@devvit/public-api';
+import { Context, TxClientLike } from '@devvit/public-api';
 import { DEFAULT_GEMINI_LIMITS } from '../config/geminiLimits.js';
+import { CONSTANTS } from '../config/constants.js';
+import { estimateTokenCount, tokenDensity } from './tokenEstimator.js';
+import { DailyQuotaError } from './errors.js';
 
 type PartialContext = Partial<Context>;
 
+interface BucketState {
+  tokens: number;
+  requestsToday: number;
+  requestsInWindow: number;
+  oldestRequestAt: number | null;
+}
+
+export interface BucketUsage {
+  requestsToday: number;
+  requestsThisMinute: number;
+  tokensAvailable: number;
+  tokensToday: number;
+}
+
+/**
+ * What a transaction read, and the writes to make when it decided to make any.
+ */
+interface TransactionPlan<T> {
+  result: T;
+  write?: (txn: TxClientLike) => Promise<void>;
+}
+
+/**
+ * Rate limits model calls across overlapping queue runs. Reservations are
+ * read-modify-write transactions under WATCH, so two runs can't spend the
+ * same tokens or request slot; a run that loses the race reads again and
+ * retries. Requests per minute are enforced over a sliding window of request
+ * timestamps rather than a single last-request time.
+ *
+ * Each API key has its own bucket, with its state stored under a namespace
+ * derived from the key's hash. The limits are the same for every key.
+ */
 export class TokenBucket {
   static readonly TOKENS_KEY = 'tokens';
   static readonly LAST_REFILL_KEY = 'last_refill';
   static readonly REQUESTS_TODAY_KEY = 'requests_today';
-  static readonly LAST_REQUEST_KEY = 'last_request';
+  static readonly REQUEST_WINDOW_KEY = 'request_window';
+  static readonly TOKENS_TODAY_KEY = 'tokens_today';
 
   public tokensPerMinute: number;
   public requestsPerMinute: number;
   public requestsPerDay: number;
 
-  constructor() {
+  private readonly namespace: string;
+
+  constructor(namespace: string = '') {
+    this.namespace = namespace;
     this.tokensPerMinute = DEFAULT_GEMINI_LIMITS.TOKENS_PER_MINUTE;
     this.requestsPerMinute = DEFAULT_GEMINI_LIMITS.REQUESTS_PER_MINUTE;
     this.requestsPerDay = DEFAULT_GEMINI_LIMITS.REQUESTS_PER_DAY;
   }
 
+  /**
+   * Returns the bucket of one API key, with the current limits.
+   * @param {string} keyId - The key's hash, as returned by apiKeyId.
+   * @returns {TokenBucket}
+   */
+  forKey(keyId: string): TokenBucket {
+    const bucket = new TokenBucket(`api_key:${keyId}:`);
+    bucket.tokensPerMinute = this.tokensPerMinute;
+    bucket.requestsPerMinute = this.requestsPerMinute;
+    bucket.requestsPerDay = this.requestsPerDay;
+    return bucket;
+  }
+
+  private key(name: string): string {
+    return `${this.namespace}${name}`;
+  }
+
   async updateLimits(tokensPerMinute: number, requestsPerMinute: number, requestsPerDay: number, context: PartialContext) {
     this.tokensPerMinute = tokensPerMinute;
     this.requestsPerMinute = requestsPerMinute;
     this.requestsPerDay = requestsPerDay;
 
-    // Update the current tokens to respect the new limit
-    const currentTokens = parseFloat(await context.redis?.get(TokenBucket.TOKENS_KEY) || '0');
-    const updatedTokens = Math.min(currentTokens, this.tokensPerMinute);
-    await context.redis?.set(TokenBucket.TOKENS_KEY, updatedTokens.toString());
-
-    // Reset the last refill time to now
-    await context.redis?.set(TokenBucket.LAST_REFILL_KEY, Date.now().toString());
+    // Cap the current tokens at the new limit and restart refilling from now
+    const updatedTokens = await this.transact(context, [this.key(TokenBucket.TOKENS_KEY)], async () => {
+      const currentTokens = parseFloat(await context.redis?.get(this.key(TokenBucket.TOKENS_KEY)) || '0');
+      const tokens = Math.min(currentTokens, this.tokensPerMinute);
+      return {
+        result: tokens,
+        write: async (txn) => {
+          await txn.set(this.key(TokenBucket.TOKENS_KEY), tokens.toString());
+          await txn.set(this.key(TokenBucket.LAST_REFILL_KEY), Date.now().toString());
+        },
+      };
+    });
 
     console.debug(`Updated limits: ${tokensPerMinute} tokens/min, ${requestsPerMinute} requests/min, ${requestsPerDay} requests/day`);
     console.debug(`Current tokens adjusted to: ${updatedTokens}`);
   }
 
-  private async refill(context: PartialContext): Promise<void> {
-    console.debug('Refilling tokens...');
-    const now = Date.now();
-    const lastRefill = parseInt(await context.redis?.get(TokenBucket.LAST_REFILL_KEY) || '0');
-    const timePassed = (now - lastRefill) / 1000; // in seconds
-    const newTokens = timePassed * (this.tokensPerMinute / 60);
-    const currentTokens = parseFloat(await context.redis?.get(TokenBucket.TOKENS_KEY) || '0');
-    const updatedTokens = Math.min(currentTokens + newTokens, this.tokensPerMinute);
-    
-    console.debug(`Adding ${newTokens.toFixed(2)} tokens. Total tokens now: ${updatedTokens.toFixed(2)}`);
-    await context.redis?.set(TokenBucket.TOKENS_KEY, updatedTokens.toString());
-    await context.redis?.set(TokenBucket.LAST_REFILL_KEY, now.toString());
-  }
-
-  async waitForTokens(tokens: number, context: PartialContext, timeout: number): Promise<boolean> {
-    const startTime = Date.now();
-    while (Date.now() - startTime < timeout) {
-      await this.refill(context);
-      const currentTokens = parseFloat(await context.redis?.get(TokenBucket.TOKENS_KEY) || '0');
-      if (currentTokens >= tokens) {
-        const reservedTokens = currentTokens - tokens;
-        await context.redis?.set(TokenBucket.TOKENS_KEY, reservedTokens.toString());
-        return true;
+  /**
+   * Runs a read-modify-write under WATCH. The plan reads the current values
+   * and returns the writes to make; when another run changes a watched key
+   * before they are executed, the plan runs again on fresh values.
+   */
+  private async transact<T>(
+    context: PartialContext,
+    keys: string[],
+    plan: () => Promise<TransactionPlan<T>>
+  ): Promise<T> {
+    if (!context.redis) {
+      throw new Error('Redis is not available in this context');
+    }
+    for (let attempt = 1; attempt <= CONSTANTS.BUCKET_TRANSACTION_ATTEMPTS; attempt++) {
+      const txn = await context.redis.watch(...keys);
+      let planned: TransactionPlan<T>;
+      try {
+        planned = await plan();
+      } catch (error) {
+        await txn.unwatch();
+        throw error;
       }
-      await new Promise(resolve => setTimeout(resolve, 100));
+      if (!planned.write) {
+        await txn.unwatch();
+        return planned.result;
+      }
+
+      await txn.multi();
+      await planned.write(txn);
+      try {
+        const replies = await txn.exec();
+        // An aborted transaction returns no replies
+        if (replies && replies.length > 0) {
+          return planned.result;
+        }
+      } catch (error) {
+        console.debug('Token bucket transaction aborted:', error);
+      }
+      console.debug(`Token bucket changed during the transaction, retrying (attempt ${attempt}).`);
     }
-    return false;
+    throw new Error('Token bucket transaction kept conflicting with other runs');
   }
 
-  async waitForRequest(context: PartialContext): Promise<void> {
-    console.debug('Waiting for available request slot...');
+  private async readState(context: PartialContext, now: number): Promise<BucketState> {
+    const lastRefill = parseInt(await context.redis?.get(this.key(TokenBucket.LAST_REFILL_KEY)) || '0');
+    const storedTokens = parseFloat(await context.redis?.get(this.key(TokenBucket.TOKENS_KEY)) || '0');
+    const refilled = ((now - lastRefill) / 60000) * this.tokensPerMinute;
+
+    const window = (await context.redis?.zRange(
+      this.key(TokenBucket.REQUEST_WINDOW_KEY),
+      now - CONSTANTS.RATE_LIMIT_WINDOW,
+      now,
+      { by: 'score' }
+    )) ?? [];
+
+    return {
+      tokens: Math.min(storedTokens + refilled, this.tokensPerMinute),
+      requestsToday: parseInt(await context.redis?.get(this.key(TokenBucket.REQUESTS_TODAY_KEY)) || '0'),
+      requestsInWindow: window.length,
+      oldestRequestAt: window.length > 0 ? window[0].score : null,
+    };
+  }
+
+  /**
+   * Reserves a request slot and the given number of tokens in one
+   * transaction, waiting up to the timeout for both. Each successful
+   * reservation counts once towards the daily request limit.
+   * @throws {DailyQuotaError} When the daily request limit has been reached.
+   * @returns {Promise<boolean>} False when the timeout passed first.
+   */
+  async reserve(tokens: number, context: PartialContext, timeout: number): Promise<boolean> {
+    if (tokens > this.tokensPerMinute) {
+      console.warn(`A request for ${tokens} tokens can never fit in a bucket of ${this.tokensPerMinute} tokens/min.`);
+      return false;
+    }
+
+    const keys = [this.key(TokenBucket.TOKENS_KEY), this.key(TokenBucket.LAST_REFILL_KEY), this.key(TokenBucket.REQUESTS_TODAY_KEY), this.key(TokenBucket.REQUEST_WINDOW_KEY)];
+    const startTime = Date.now();
     while (true) {
       const now = Date.now();
-      const lastRequest = parseInt(await context.redis?.get(TokenBucket.LAST_REQUEST_KEY) || '0');
-      const requestsToday = parseInt(await context.redis?.get(TokenBucket.REQUESTS_TODAY_KEY) || '0');
-      
-      if (now - lastRequest >= 60000 / this.requestsPerMinute) {
-        if (requestsToday < this.requestsPerDay) {
-          await context.redis?.set(TokenBucket.REQUESTS_TODAY_KEY, (requestsToday + 1).toString());
-          await context.redis?.set(TokenBucket.LAST_REQUEST_KEY, now.toString());
-          console.debug(`Allocated request slot. Requests today: ${requestsToday + 1}`);
-          break;
-        } else {
-          console.warn('Daily request limit reached.');
+      // Dropping expired window entries is safe from any run, so it happens outside the transaction
+      await context.redis?.zRemRangeByScore(this.key(TokenBucket.REQUEST_WINDOW_KEY), 0, now - CONSTANTS.RATE_LIMIT_WINDOW - 1);
+
+      const waitMs = await this.transact(context, keys, async () => {
+        const state = await this.readState(context, now);
+        if (state.requestsToday >= this.requestsPerDay) {
+          throw new DailyQuotaError();
+        }
+        if (state.requestsInWindow >= this.requestsPerMinute) {
+          // A slot frees up when the oldest request leaves the window
+          return { result: (state.oldestRequestAt ?? now) + CONSTANTS.RATE_LIMIT_WINDOW - now };
         }
-      } else {
-        console.debug('Request slot not available yet.');
+        if (state.tokens < tokens) {
+          return { result: ((tokens - state.tokens) / this.tokensPerMinute) * 60000 };
+        }
+        return {
+          result: 0,
+          write: async (txn) => {
+            await txn.set(this.key(TokenBucket.TOKENS_KEY), (state.tokens - tokens).toString());
+            await txn.set(this.key(TokenBucket.LAST_REFILL_KEY), now.toString());
+            await txn.incrBy(this.key(TokenBucket.REQUESTS_TODAY_KEY), 1);
+            await txn.zAdd(this.key(TokenBucket.REQUEST_WINDOW_KEY), { member: `${now}:${Math.random().toString(36).slice(2)}`, score: now });
+          },
+        };
+      });
+
+      if (waitMs === 0) {
+        console.debug(`Reserved a request slot and ${tokens} tokens.`);
+        return true;
+      }
+
+      const remaining = timeout - (Date.now() - startTime);
+      if (remaining <= 0) {
+        return false;
       }
-      await new Promise(resolve => setTimeout(resolve, 100));
+      console.debug(`Request slot or tokens not available yet. Waiting ${Math.ceil(waitMs)}ms.`);
+      await new Promise(resolve => setTimeout(resolve, Math.min(Math.max(waitMs, 100), remaining)));
     }
   }
 
+  /**
+   * Adds tokens to the bucket, or deducts them when negative, without going
+   * over the per-minute limit.
+   */
+  private async adjustTokens(difference: number, context: PartialContext): Promise<number> {
+    return this.transact(context, [this.key(TokenBucket.TOKENS_KEY)], async () => {
+      const currentTokens = parseFloat(await context.redis?.get(this.key(TokenBucket.TOKENS_KEY)) || '0');
+      const updatedTokens = Math.min(currentTokens + difference, this.tokensPerMinute);
+      return {
+        result: updatedTokens,
+        write: async (txn) => {
+          await txn.set(this.key(TokenBucket.TOKENS_KEY), updatedTokens.toString());
+        },
+      };
+    });
+  }
+
   async resetDailyRequests(context: PartialContext): Promise<void> {
     console.info('Resetting daily requests and tokens...');
-    await context.redis?.set(TokenBucket.REQUESTS_TODAY_KEY, '0');
+    await context.redis?.set(this.key(TokenBucket.REQUESTS_TODAY_KEY), '0');
+    await context.redis?.set(this.key(TokenBucket.TOKENS_TODAY_KEY), '0');
     console.debug('Daily requests reset to 0.');
     // Optionally reset tokens as well
-    await context.redis?.set(TokenBucket.TOKENS_KEY, this.tokensPerMinute.toString());
+    await context.redis?.set(this.key(TokenBucket.TOKENS_KEY), this.tokensPerMinute.toString());
     console.debug(`Tokens reset to ${this.tokensPerMinute}.`);
   }
 
   async releaseTokens(tokens: number, context: PartialContext): Promise<void> {
-    const currentTokens = parseFloat(await context.redis?.get(TokenBucket.TOKENS_KEY) || '0');
-    const updatedTokens = Math.min(currentTokens + tokens, this.tokensPerMinute);
-    await context.redis?.set(TokenBucket.TOKENS_KEY, updatedTokens.toString());
+    const updatedTokens = await this.adjustTokens(tokens, context);
     console.debug(`Released ${tokens} tokens. Total tokens now: ${updatedTokens}`);
   }
 
+  /**
+   * Charges the bucket for what a call actually used. The reservation made in
+   * reserve is replaced by the real figure: any surplus is refunded, and
+   * any shortfall is deducted, which may leave the balance negative until the
+   * next refill pays it off.
+   */
+  async reconcileUsage(reservedTokens: number, actualTokens: number, context: PartialContext): Promise<void> {
+    const updatedTokens = await this.adjustTokens(reservedTokens - actualTokens, context);
+    await context.redis?.incrBy(this.key(TokenBucket.TOKENS_TODAY_KEY), Math.round(actualTokens));
+    console.debug(`Reconciled usage: reserved ${reservedTokens}, used ${actualTokens}. Total tokens now: ${updatedTokens}`);
+  }
+
+  /**
+   * Reads the bucket's counters for the dashboard.
+   */
+  async usage(context: PartialContext): Promise<BucketUsage> {
+    return {
+      requestsToday: parseInt(await context.redis?.get(this.key(TokenBucket.REQUESTS_TODAY_KEY)) || '0', 10),
+      requestsThisMinute: await this.requestsInWindow(context),
+      tokensAvailable: Math.floor(parseFloat(await context.redis?.get(this.key(TokenBucket.TOKENS_KEY)) || '0')),
+      tokensToday: parseInt(await context.redis?.get(this.key(TokenBucket.TOKENS_TODAY_KEY)) || '0', 10),
+    };
+  }
+
+  /**
+   * Deletes all of the bucket's state, for a key that was removed.
+   */
+  async clear(context: PartialContext): Promise<void> {
+    await context.redis?.del(
+      this.key(TokenBucket.TOKENS_KEY),
+      this.key(TokenBucket.LAST_REFILL_KEY),
+      this.key(TokenBucket.REQUESTS_TODAY_KEY),
+      this.key(TokenBucket.REQUEST_WINDOW_KEY),
+      this.key(TokenBucket.TOKENS_TODAY_KEY)
+    );
+  }
+
+  /**
+   * Counts the model calls made in the last minute.
+   */
+  async requestsInWindow(context: PartialContext): Promise<number> {
+    const now = Date.now();
+    const window = await context.redis?.zRange(this.key(TokenBucket.REQUEST_WINDOW_KEY), now - CONSTANTS.RATE_LIMIT_WINDOW, now, { by: 'score' });
+    return window?.length ?? 0;
+  }
+
   static estimateTokens(text: string): number {
-    // A more accurate estimation method
-    // Gemini uses about 1 token per 4 characters for English text
-    return Math.ceil(text.length / 4);
+    // Script-aware approximation; see tokenEstimator.ts
+    return estimateTokenCount(text);
   }
 
-  static estimateMaxTokens(characterLimit: number): number {
-    // Estimate the maximum number of tokens for a given character limit
-    return Math.ceil(characterLimit / 4);
+  static estimateMaxTokens(characterLimit: number, sampleText: string = ''): number {
+    // Estimate the maximum number of tokens for a given character limit,
+    // scaled by the token density of the content being summarized
+    return Math.ceil(characterLimit * tokenDensity(sampleText));
   }
 
   async resetBucket(context: PartialContext): Promise<void> {
     console.info('Resetting token bucket...');
-    await context.redis?.set(TokenBucket.TOKENS_KEY, this.tokensPerMinute.toString());
-    await context.redis?.set(TokenBucket.REQUESTS_TODAY_KEY, '0');
-    await context.redis?.set(TokenBucket.LAST_REFILL_KEY, Date.now().toString());
-    await context.redis?.set(TokenBucket.LAST_REQUEST_KEY, '0');
+    await context.redis?.set(this.key(TokenBucket.TOKENS_KEY), this.tokensPerMinute.toString());
+    await context.redis?.set(this.key(TokenBucket.REQUESTS_TODAY_KEY), '0');
+    await context.redis?.set(this.key(TokenBucket.TOKENS_TODAY_KEY), '0');
+    await context.redis?.set(this.key(TokenBucket.LAST_REFILL_KEY), Date.now().toString());
+    await context.redis?.del(this.key(TokenBucket.REQUEST_WINDOW_KEY));
     console.debug('Token bucket reset completed.');
   }
 
@@ -138,25 +330,6 @@ export class TokenBucket {
       await this.updateLimits(newTokensPerMinute, newRequestsPerMinute, newRequestsPerDay, context);
     }
   }
-
-  async checkRequestAvailability(context: PartialContext, timeout: number): Promise<boolean> {
-    const startTime = Date.now();
-    while (Date.now() - startTime < timeout) {
-      const now = Date.now();
-      const lastRequest = parseInt(await context.redis?.get(TokenBucket.LAST_REQUEST_KEY) || '0');
-      const requestsToday = parseInt(await context.redis?.get(TokenBucket.REQUESTS_TODAY_KEY) || '0');
-      
-      if (requestsToday >= this.requestsPerDay) {
-        throw new Error('DailyRequestLimitReached');
-      }
-      
-      if (now - lastRequest >= 60000 / this.requestsPerMinute) {
-        return true;
-      }
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
-    return false;
-  }
 }
 
-export const tokenBucketInstance = new TokenBucket();
\ No newline at end of file
+export const tokenBucketInstance = new TokenBucket();
@@ -0,0 +1,67 @@
+/**
+ * Offline token estimation used when the provider has no countTokens endpoint
+ * (or it fails). Subword tokenizers such as Gemini's SentencePiece model and
+ * OpenAI's BPE vocabularies pack English into ~4 characters per token, but
+ * spend roughly one token per character on CJK, a token per 2-3 characters on
+ * Cyrillic/Greek/Arabic, and a lot of tokens on the punctuation that dominates
+ * code. We approximate this with a per-script weight for every code point.
+ */
+
+interface ScriptWeight {
+  pattern: RegExp;
+  tokensPerChar: number;
+}
+
+// Order matters: the first matching pattern wins
+const SCRIPT_WEIGHTS: ScriptWeight[] = [
+  { pattern: /\s/u, tokensPerChar: 0.05 },
+  { pattern: /[A-Za-zÀ-ɏ]/u, tokensPerChar: 0.25 },
+  { pattern: /[0-9]/u, tokensPerChar: 0.34 },
+  { pattern: /[!-/:-@[-`{-~]/u, tokensPerChar: 0.6 },
+  { pattern: /[\p{Script=Cyrillic}\p{Script=Greek}\p{Script=Armenian}\p{Script=Georgian}]/u, tokensPerChar: 0.4 },
+  { pattern: /[\p{Script=Arabic}\p{Script=Hebrew}]/u, tokensPerChar: 0.45 },
+  { pattern: /[\p{Script=Devanagari}\p{Script=Bengali}\p{Script=Tamil}\p{Script=Telugu}\p{Script=Thai}\p{Script=Khmer}]/u, tokensPerChar: 0.6 },
+  { pattern: /[\p{Script=Hangul}]/u, tokensPerChar: 0.8 },
+  { pattern: /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u, tokensPerChar: 1.0 },
+];
+
+// Emoji, symbols and anything unclassified usually cost at least a full token
+const DEFAULT_TOKENS_PER_CHAR = 1.0;
+
+// English prose, used when there's no sample text to measure
+export const BASELINE_TOKENS_PER_CHAR = 0.25;
+
+function weightFor(char: string): number {
+  for (const { pattern, tokensPerChar } of SCRIPT_WEIGHTS) {
+    if (pattern.test(char)) {
+      return tokensPerChar;
+    }
+  }
+  return DEFAULT_TOKENS_PER_CHAR;
+}
+
+/**
+ * Estimates the number of tokens in a string.
+ * @param {string} text - The text to measure.
+ * @returns {number}
+ */
+export function estimateTokenCount(text: string): number {
+  let total = 0;
+  for (const char of text) {
+    total += weightFor(char);
+  }
+  return Math.ceil(total);
+}
+
+/**
+ * Average tokens per character of a sample, never lower than the English baseline.
+ * @param {string} sample - Representative text, e.g. the scraped article.
+ * @returns {number}
+ */
+export function tokenDensity(sample: string): number {
+  if (!sample) {
+    return BASELINE_TOKENS_PER_CHAR;
+  }
+  // Strings are measured in UTF-16 code units to match how limits are expressed
+  return Math.max(BASELINE_TOKENS_PER_CHAR, estimateTokenCount(sample) / sample.length);
+}